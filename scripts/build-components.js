@@ -3,27 +3,31 @@
 import fs from 'fs';
 import path from 'path';
 
-// Transform the LocaleRedirect.astro component for distribution
-const sourcePath = 'src/components/LocaleRedirect.astro';
-const distPath = 'dist/components/LocaleRedirect.astro';
-
-// Ensure dist/components directory exists
-const distDir = path.dirname(distPath);
-if (!fs.existsSync(distDir)) {
-  fs.mkdirSync(distDir, { recursive: true });
-}
+// Transform the Astro components for distribution
+const components = ['LocaleHead.astro', 'LocaleRedirect.astro', 'LocaleSwitcher.astro'];
+
+for (const component of components) {
+  const sourcePath = `src/components/${component}`;
+  const distPath = `dist/components/${component}`;
 
-// Read the source file
-let content = fs.readFileSync(sourcePath, 'utf8');
+  // Ensure dist/components directory exists
+  const distDir = path.dirname(distPath);
+  if (!fs.existsSync(distDir)) {
+    fs.mkdirSync(distDir, { recursive: true });
+  }
 
-// Transform the import for distribution
-content = content.replace(
-  /import \{ Locale \} from "\.\.\/lib\/locale"/,
-  `// @ts-ignore - This is a generated file
+  // Read the source file
+  let content = fs.readFileSync(sourcePath, 'utf8');
+
+  // Transform the import for distribution
+  content = content.replace(
+    /import \{ Locale \} from "\.\.\/lib\/locale"/,
+    `// @ts-ignore - This is a generated file
 import { Locale } from "@mannisto/astro-i18n"`
-);
+  );
 
-// Write the transformed file
-fs.writeFileSync(distPath, content);
+  // Write the transformed file
+  fs.writeFileSync(distPath, content);
+}
 
 console.log('🚀 Astro components built successfully');
@@ -1,3 +1,36 @@
 export { default as i18n } from "./integration.js"
 export { Locale } from "./lib/locale.js"
-export type { Configuration, Locales, Translations } from "./types.js"
+export { type CheckedConfiguration, defineI18nConfig } from "./lib/validation.js"
+export type {
+  Alternates,
+  ClientDelivery,
+  Configuration,
+  Detection,
+  Dictionary,
+  Fallback,
+  Formats,
+  LocaleFormats,
+  LocaleInfo,
+  LocaleReport,
+  Locales,
+  Messages,
+  MessageVariables,
+  NestedTranslations,
+  Register,
+  Routing,
+  RoutingStrategy,
+  Slugs,
+  StaticPath,
+  StaticPathEntry,
+  StaticPathsOptions,
+  Translate,
+  TranslateArguments,
+  TranslatedMessage,
+  TranslationFormat,
+  TranslationKey,
+  TranslationReport,
+  Translations,
+  TranslationsOptions,
+  Urls,
+  Values,
+} from "./types.js"
@@ -1,114 +1,73 @@
 import fs from "node:fs"
 import path from "node:path"
-
-import type { AstroIntegration } from "astro"
+import url from "node:url"
+
+import type { AstroIntegration, AstroIntegrationLogger } from "astro"
+import { generateTypes } from "./lib/declarations.js"
+import { singleLocale } from "./lib/locale.js"
+import { clientConfig, invalidate, VIRTUAL, vitePlugin } from "./lib/plugin.js"
+import { createReport, describeReport } from "./lib/report.js"
+import { listNamespaces, loadTranslations } from "./lib/translations.js"
+import { validate } from "./lib/validation.js"
 import type { Configuration } from "./types.js"
 
-function validate(config: Configuration): void {
-  if (!config.enabled) {
-    return
-  }
-
-  if (!config.default) {
-    throw new Error('"default" is required when enabled is true')
-  }
-
-  if (!config.locales || !Array.isArray(config.locales) || config.locales.length === 0) {
-    throw new Error('"locales" must be a non-empty array')
+/**
+ * Writes the translation report when configured and warns about missing,
+ * extra and mismatched translations
+ *
+ * @throws If translations are incomplete in strict mode
+ */
+function report(
+  config: Configuration,
+  root: string,
+  translations: Record<string, Record<string, string>>,
+  logger: AstroIntegrationLogger,
+): void {
+  const result = createReport(translations, config.default)
+  if (config.translations?.report) {
+    const file = path.resolve(root, config.translations.report)
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, JSON.stringify(result, null, 2))
   }
 
-  if (!config.locales.some((l) => l.code === config.default)) {
-    throw new Error('"default" must be one of the supported locale codes')
+  const problems = describeReport(result)
+  if (problems.length && config.translations?.strict) {
+    throw new Error(`Incomplete translations:\n${problems.join("\n")}`)
   }
-
-  if (config.translations?.enabled && !config.translations.path) {
-    throw new Error('"translations.path" is required when translations.enabled is true')
+  for (const problem of problems) {
+    logger.warn(problem)
   }
 }
 
-function loadTranslations(config: Configuration): Record<string, Record<string, string>> {
-  const translations: Record<string, Record<string, string>> = {}
-
-  if (config.translations?.enabled && config.translations.path) {
-    for (const locale of config.locales) {
-      const tsPath = path.join(process.cwd(), config.translations.path, `${locale.code}.ts`)
-      const jsPath = path.join(process.cwd(), config.translations.path, `${locale.code}.js`)
-
-      const translationData: Record<string, string> = {}
-
-      if (fs.existsSync(tsPath)) {
-        try {
-          const content = fs.readFileSync(tsPath, "utf8")
-          
-          // Remove comments
-          const noComments = content
-            .replace(/\/\*[\s\S]*?\*\//g, '') // Remove /* */ comments
-            .replace(/\/\/.*$/gm, '') // Remove // comments
-          
-          // Extract the export default object
-          const match = noComments.match(/export\s+default\s*(\{[\s\S]*\})\s*;?\s*$/)
-          if (match) {
-            const objectContent = match[1]
-            
-            // Parse key-value pairs
-            const keyValueRegex = /(["']?)([^"'\s:]+)\1\s*:\s*["']([^"']*)["']/g
-            let keyValueMatch
-            
-            while ((keyValueMatch = keyValueRegex.exec(objectContent)) !== null) {
-              const key = keyValueMatch[2]
-              const value = keyValueMatch[3]
-              translationData[key] = value
-            }
-          }
-        } catch (error) {
-          throw new Error(`Failed to load translation file ${tsPath}: ${error}`)
-        }
-      } else if (fs.existsSync(jsPath)) {
-        try {
-          const content = fs.readFileSync(jsPath, "utf8")
-          
-          // Remove comments
-          const noComments = content
-            .replace(/\/\*[\s\S]*?\*\//g, '') // Remove /* */ comments
-            .replace(/\/\/.*$/gm, '') // Remove // comments
-          
-          // Extract the export default object
-          const match = noComments.match(/export\s+default\s*(\{[\s\S]*\})\s*;?\s*$/)
-          if (match) {
-            const objectContent = match[1]
-            
-            // Parse key-value pairs
-            const keyValueRegex = /(["']?)([^"'\s:]+)\1\s*:\s*["']([^"']*)["']/g
-            let keyValueMatch
-            
-            while ((keyValueMatch = keyValueRegex.exec(objectContent)) !== null) {
-              const key = keyValueMatch[2]
-              const value = keyValueMatch[3]
-              translationData[key] = value
-            }
-          }
-        } catch (error) {
-          throw new Error(`Failed to load translation file ${jsPath}: ${error}`)
-        }
-      } else {
-        throw new Error(
-          `Translation file not found for locale "${locale.code}" (tried ${locale.code}.ts and ${locale.code}.js)`,
-        )
-      }
-
-      translations[locale.code] = translationData
-    }
-  }
-
-  return translations
-}
+export default function i18n(options: Configuration): AstroIntegration {
+  // Set once the options are validated
+  let config: Configuration
+  let root = process.cwd()
+  let declarations: URL | undefined
+  let types = ""
+  let translations: Record<string, Record<string, string>> = {}
+  let namespaces: Record<string, string[]> = {}
+  let failure: Error | undefined
 
-export default function i18n(config: Configuration): AstroIntegration {
   return {
     name: "@mannisto/astro-i18n",
     hooks: {
-      "astro:config:setup": ({ injectScript, logger }) => {
-        validate(config)
+      "astro:config:setup": async ({
+        config: astroConfig,
+        createCodegenDir,
+        injectScript,
+        updateConfig,
+        addMiddleware,
+        command,
+        logger,
+      }) => {
+        if (astroConfig.root) {
+          root = url.fileURLToPath(astroConfig.root)
+        }
+
+        validate(options, root)
+        // With i18n disabled the site has a single locale, whose translations still load
+        config = singleLocale(options)
 
         logger.info(`enabled: ${config.enabled}`)
         if (config.enabled) {
@@ -116,29 +75,143 @@ export default function i18n(config: Configuration): AstroIntegration {
           logger.info(`supported locales: ${config.locales.map((l) => l.code).join(", ")}`)
         }
 
-        let translations: Record<string, Record<string, string>> = {}
         if (config.translations?.enabled) {
           try {
-                                    translations = loadTranslations(config)
+            translations = await loadTranslations(config, root)
+            namespaces = listNamespaces(config, root)
             logger.info(`loaded translations for ${Object.keys(translations).length} locales`)
           } catch (error) {
             logger.error(`Failed to load translations: ${error}`)
-            throw error
+            // During dev the error is shown in the error overlay until the file is fixed
+            if (command !== "dev") throw error
+            failure = error instanceof Error ? error : new Error(String(error))
           }
+
+          report(config, root, translations, logger)
+
+          // Types are injected once the config is done and rewritten in place during dev
+          types = generateTypes(translations[config.default] ?? {}, config.default)
+          declarations = new URL("translations.d.ts", createCodegenDir())
+        }
+
+        // The runtime follows the site, base path and trailing slash setting of the project
+        const runtime: Configuration = {
+          ...config,
+          urls: {
+            site: astroConfig.site,
+            base: astroConfig.base,
+            trailingSlash: astroConfig.trailingSlash,
+          },
         }
 
         // Make configuration available globally during build time
-        (globalThis as any).__ASTRO_I18N_CONFIG__ = config;
-        (globalThis as any).__ASTRO_I18N_TRANSLATIONS__ = translations;
+        globalThis.__ASTRO_I18N_CONFIG__ = runtime
+        globalThis.__ASTRO_I18N_TRANSLATIONS__ = translations
+        globalThis.__ASTRO_I18N_FALLBACKS__ = new Map()
+
+        updateConfig({
+          vite: {
+            plugins: [
+              vitePlugin({
+                config: runtime,
+                translations: () => translations,
+                namespaces: () => namespaces,
+                error: () => failure,
+              }),
+            ],
+          },
+        })
+
+        addMiddleware({ entrypoint: `${VIRTUAL}/middleware`, order: "pre" })
+
+        // The server gets everything. The browser gets the client configuration
+        // and loaders that fetch the translations of a locale as a separate chunk,
+        // on every page or, by default, only where a client script uses them
+        injectScript(
+          "page-ssr",
+          `import { config, translations } from "${VIRTUAL}/server"; globalThis.__ASTRO_I18N_CONFIG__ = config; globalThis.__ASTRO_I18N_TRANSLATIONS__ = translations;`,
+        )
+        if (config.client === true) {
+          injectScript(
+            "head-inline",
+            `globalThis.__ASTRO_I18N_CONFIG__ = ${JSON.stringify(clientConfig(runtime))};`,
+          )
+          injectScript("page", `import "${VIRTUAL}/client";`)
+        }
+      },
+      "astro:config:done": ({ injectTypes }) => {
+        if (types) {
+          injectTypes({ filename: "translations.d.ts", content: types })
+        }
+      },
+      "astro:server:setup": ({ server, logger }) => {
+        if (!declarations || !config.translations?.path) {
+          return
+        }
+
+        const directory = path.resolve(root, config.translations.path)
+        const reload = async () => {
+          try {
+            // Translation modules are loaded through the dev server, which
+            // only evaluates the files that changed since the last reload
+            const loaded = await loadTranslations(config, root, server)
+            report(config, root, loaded, logger)
+            translations = loaded
+            namespaces = listNamespaces(config, root)
+            failure = undefined
+            globalThis.__ASTRO_I18N_TRANSLATIONS__ = translations
+            logger.info("reloaded translations")
+
+            types = generateTypes(translations[config.default] ?? {}, config.default)
+            fs.writeFileSync(declarations!, types)
+            logger.info("regenerated translation types")
+          } catch (error) {
+            // The previous translations are kept and the error is thrown by the
+            // virtual modules, which shows it in the error overlay
+            failure = error instanceof Error ? error : new Error(String(error))
+            logger.error(`Failed to reload translations: ${failure.message}`)
+          }
 
-        const configScript = `globalThis.__ASTRO_I18N_CONFIG__ = ${JSON.stringify(config)};`
-        const translationsScript = `globalThis.__ASTRO_I18N_TRANSLATIONS__ = ${JSON.stringify(translations)};`
+          invalidate(server)
+          server.ws.send({ type: "full-reload" })
+        }
 
-        // Debug: log what we're injecting
-        logger.info(`Injecting config: ${configScript}`)
-        logger.info(`Injecting translations: ${translationsScript}`)
+        // Reloads run one at a time so that the last one always reads the latest
+        // files, and changes made while one runs are picked up by a single reload
+        let queue = Promise.resolve()
+        let queued = false
+        const schedule = (file: string) => {
+          if (!file.startsWith(directory + path.sep)) {
+            return
+          }
+
+          for (const mod of server.moduleGraph.getModulesByFile(file) ?? []) {
+            server.moduleGraph.invalidateModule(mod)
+          }
+          if (queued) {
+            return
+          }
+          queued = true
+          queue = queue.then(() => {
+            queued = false
+            return reload()
+          })
+        }
 
-        injectScript("head-inline", configScript + translationsScript)
+        server.watcher.add(directory)
+        server.watcher.on("add", schedule)
+        server.watcher.on("change", schedule)
+        server.watcher.on("unlink", schedule)
+      },
+      "astro:build:done": ({ logger }) => {
+        for (const { key, locale, resolved } of globalThis.__ASTRO_I18N_FALLBACKS__?.values() ??
+          []) {
+          if (resolved) {
+            logger.warn(`translation "${key}" is missing in ${locale}, fell back to ${resolved}`)
+          } else {
+            logger.warn(`translation "${key}" is missing in ${locale} and all of its fallbacks`)
+          }
+        }
       },
     },
   }
@@ -0,0 +1,67 @@
+import { compile, type Message } from "./message.js"
+
+/**
+ * The TypeScript type of a value for each kind of message argument
+ */
+const ARGUMENT_TYPES = {
+  argument: "string | number",
+  number: "number",
+  plural: "number",
+  selectordinal: "number",
+  date: "Date | number",
+  time: "Date | number",
+  select: "string",
+}
+
+/**
+ * Collects the names and types of the variables used by a message
+ */
+function collect(message: Message, variables: Map<string, Set<string>>): void {
+  for (const node of message) {
+    if (typeof node === "string" || node.type === "pound") continue
+
+    const types = variables.get(node.name) ?? new Set()
+    types.add(ARGUMENT_TYPES[node.type])
+    variables.set(node.name, types)
+
+    if ("options" in node) {
+      for (const option of Object.values(node.options)) collect(option, variables)
+    }
+  }
+}
+
+/**
+ * Generates a declaration file that registers every translation key of
+ * the default locale and the variables its message expects. A variable
+ * used as more than one kind of argument must satisfy all of them.
+ *
+ * @param translations - The flat translations of the default locale
+ * @param locale - The default locale code
+ * @returns The declaration file content
+ */
+export function generateTypes(translations: Record<string, string>, locale: string): string {
+  const entries = Object.entries(translations).map(([key, text]) => {
+    const variables = new Map<string, Set<string>>()
+    collect(compile(text), variables)
+
+    const fields = [...variables].map(([name, types]) => {
+      const type = [...types].map((t) => (types.size > 1 ? `(${t})` : t)).join(" & ")
+      return `${JSON.stringify(name)}: ${type}`
+    })
+    return `      ${JSON.stringify(key)}: {${fields.length ? ` ${fields.join("; ")} ` : ""}}`
+  })
+
+  return [
+    `// Generated by @mannisto/astro-i18n from the "${locale}" translations. Do not edit.`,
+    `declare module "@mannisto/astro-i18n" {`,
+    "  interface Register {",
+    "    messages: {",
+    ...entries,
+    "    }",
+    "  }",
+    "}",
+    "",
+    "export {}",
+    "",
+  ].join("\n")
+}
@@ -0,0 +1,233 @@
+import fs from "node:fs"
+
+import type { ViteDevServer } from "vite"
+import { type Document, isMap, isScalar, LineCounter, parseDocument } from "yaml"
+import type { TranslationFormat } from "../types.js"
+
+/**
+ * The content of a translation file and the line of each dot-path key,
+ * when the format knows it
+ */
+export interface Source {
+  data: unknown
+  lines?: Map<string, number>
+}
+
+/**
+ * Shared state of the formats while loading the files of every locale
+ */
+export interface FormatContext {
+  server(): Promise<ViteDevServer>
+}
+
+/**
+ * Reads the translation files of one format
+ */
+export interface Format {
+  extensions: string[]
+  load(file: string, context: FormatContext): Promise<Source>
+}
+
+// A bundler does not follow an import of a variable, which keeps Vite
+// out of the bundle of a page importing the runtime
+const VITE = "vite"
+
+/**
+ * Creates a throwaway Vite server that is only used to evaluate
+ * translation modules, mirroring how Astro loads its own config file.
+ * Vite is imported when the server is needed so that the runtime can
+ * still be bundled for the browser.
+ */
+export async function createLoader(root: string): Promise<ViteDevServer> {
+  const { createServer }: typeof import("vite") = await import(/* @vite-ignore */ VITE)
+  return createServer({
+    root,
+    configFile: false,
+    logLevel: "silent",
+    server: { middlewareMode: true, hmr: false, watch: null, ws: false },
+    optimizeDeps: { noDiscovery: true },
+    clearScreen: false,
+    appType: "custom",
+    ssr: { external: true },
+  })
+}
+
+/**
+ * Creates the error thrown when a translation file cannot be loaded
+ */
+function failure(location: string, error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error)
+  return new Error(`Failed to load translation file ${location}: ${message}`, { cause: error })
+}
+
+/**
+ * Resolves the `file:line:column` location of an error thrown while
+ * loading a translation module, falling back to the file itself.
+ */
+function locate(error: unknown, file: string): string {
+  const loc = (error as { loc?: { line?: number; column?: number } } | undefined)?.loc
+  if (loc?.line) {
+    return `${file}:${loc.line}:${loc.column ?? 0}`
+  }
+
+  const stack = error instanceof Error ? (error.stack ?? "") : ""
+  const escaped = file.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  const match = stack.match(new RegExp(`${escaped}:(\\d+):(\\d+)`))
+  return match ? `${file}:${match[1]}:${match[2]}` : file
+}
+
+/**
+ * Collects the line of every dot-path key of a YAML (or JSON) document
+ */
+function lines(document: Document, counter: LineCounter): Map<string, number> {
+  const result = new Map<string, number>()
+
+  const visit = (node: unknown, prefix: string) => {
+    if (!isMap(node)) return
+    for (const pair of node.items) {
+      if (!isScalar(pair.key) || !pair.key.range) continue
+      const key = prefix ? `${prefix}.${pair.key.value}` : String(pair.key.value)
+      result.set(key, counter.linePos(pair.key.range[0]).line)
+      visit(pair.value, key)
+    }
+  }
+  visit(document.contents, "")
+
+  return result
+}
+
+/**
+ * Unescapes a double-quoted PO string
+ */
+function unquote(value: string): string {
+  const escapes: Record<string, string> = { n: "\n", t: "\t" }
+  return value.slice(1, -1).replace(/\\(["\\nt])/g, (_, char: string) => escapes[char] ?? char)
+}
+
+/**
+ * Parses a gettext PO file into keys and messages. The `msgid`, prefixed by
+ * `msgctxt` when present, is the key. Untranslated and fuzzy entries are
+ * skipped and the header entry is ignored.
+ */
+function po(content: string, file: string): Source {
+  type Field = "msgctxt" | "msgid" | "msgid_plural" | "msgstr"
+  type Entry = { line: number; fuzzy: boolean } & Partial<Record<Field, string>>
+
+  const data: Record<string, string> = {}
+  const positions = new Map<string, number>()
+  let entry: Entry | undefined
+  let field: Field | undefined
+  let fuzzy = false
+
+  const finish = () => {
+    if (entry?.msgid) {
+      const key = entry.msgctxt ? `${entry.msgctxt}.${entry.msgid}` : entry.msgid
+      if (entry.msgid_plural !== undefined) {
+        throw failure(
+          `${file}:${entry.line}`,
+          `Plural entry "${key}" is not supported, use an ICU plural in msgstr instead`,
+        )
+      }
+      if (positions.has(key)) {
+        throw failure(`${file}:${entry.line}`, `Translation "${key}" is defined more than once`)
+      }
+      if (entry.msgstr && !entry.fuzzy) {
+        data[key] = entry.msgstr
+        positions.set(key, entry.line)
+      }
+    }
+    entry = undefined
+    field = undefined
+  }
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim()
+
+    if (!line || line.startsWith("#")) {
+      if (entry?.msgstr !== undefined) finish()
+      if (line.startsWith("#,") && line.includes("fuzzy")) fuzzy = true
+      return
+    }
+
+    const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr)(\[\d+\])?\s+(".*")$/)
+    if (keyword) {
+      const [, name, form, value] = keyword as [string, Field, string | undefined, string]
+      if (entry?.msgstr !== undefined && (name === "msgctxt" || name === "msgid")) finish()
+      entry ??= { line: index + 1, fuzzy }
+      fuzzy = false
+
+      // Only the first plural form is kept, plural entries are rejected anyway
+      field = form && form !== "[0]" ? undefined : name
+      if (field) entry[field] = unquote(value)
+      return
+    }
+
+    if (/^".*"$/.test(line) && entry) {
+      if (field) entry[field] += unquote(line)
+      return
+    }
+
+    throw failure(`${file}:${index + 1}`, `Unexpected "${line}"`)
+  })
+  finish()
+
+  return { data, lines: positions }
+}
+
+/**
+ * Translation file formats by name, tried in this order when
+ * no format is configured
+ */
+export const FORMATS: Record<TranslationFormat, Format> = {
+  module: {
+    extensions: [".ts", ".js"],
+    async load(file, context) {
+      const server = await context.server()
+      try {
+        const mod = await server.ssrLoadModule(file, { fixStacktrace: true })
+        return { data: mod.default }
+      } catch (error) {
+        throw failure(locate(error, file), error)
+      }
+    },
+  },
+  json: {
+    extensions: [".json"],
+    async load(file) {
+      const content = fs.readFileSync(file, "utf8")
+      let data: unknown
+      try {
+        data = JSON.parse(content)
+      } catch (error) {
+        const position = String((error as Error).message).match(/at position (\d+)/)
+        if (!position) throw failure(file, error)
+
+        const before = content.slice(0, Number(position[1])).split("\n")
+        throw failure(`${file}:${before.length}:${before[before.length - 1].length + 1}`, error)
+      }
+
+      const counter = new LineCounter()
+      return { data, lines: lines(parseDocument(content, { lineCounter: counter }), counter) }
+    },
+  },
+  yaml: {
+    extensions: [".yaml", ".yml"],
+    async load(file) {
+      const counter = new LineCounter()
+      const document = parseDocument(fs.readFileSync(file, "utf8"), { lineCounter: counter })
+
+      const [error] = document.errors
+      if (error) {
+        const [start] = error.linePos ?? []
+        throw failure(start ? `${file}:${start.line}:${start.col}` : file, error)
+      }
+      return { data: document.toJS(), lines: lines(document, counter) }
+    },
+  },
+  po: {
+    extensions: [".po"],
+    async load(file) {
+      return po(fs.readFileSync(file, "utf8"), file)
+    },
+  },
+}
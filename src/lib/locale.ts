@@ -1,9 +1,43 @@
-import type { Configuration, Locales } from "../types"
+import type {
+  Alternates,
+  Configuration,
+  Dictionary,
+  Fallback,
+  LocaleFormats,
+  LocaleInfo,
+  Locales,
+  MessageVariables,
+  NamespaceDictionary,
+  NestedTranslations,
+  Routing,
+  StaticPath,
+  StaticPathEntry,
+  StaticPathsOptions,
+  Translate,
+  TranslationsOptions,
+  Urls,
+  Values,
+} from "../types"
+import { compile, DATE_STYLES, format, formatter, NUMBER_STYLES } from "./message"
+import {
+  delocalize,
+  isPrefixed,
+  localize,
+  QUERY,
+  strategy,
+  translatePath,
+  untranslatePath,
+} from "./routing"
 
 // Global configuration injected by the Astro integration
 declare global {
   var __ASTRO_I18N_CONFIG__: Configuration | undefined
   var __ASTRO_I18N_TRANSLATIONS__: Record<string, Record<string, string>> | undefined
+  var __ASTRO_I18N_FALLBACKS__: Map<string, Fallback> | undefined
+  var __ASTRO_I18N_SCOPE__: { getStore(): { locale?: string } | undefined } | undefined
+  var __ASTRO_I18N_LOADERS__:
+    | Record<string, () => Promise<{ default: Record<string, string> }>>
+    | undefined
 }
 
 const cache: {
@@ -11,8 +45,24 @@ const cache: {
   translations: Record<string, Record<string, string>>
 } = { translations: {} }
 
+// Nested and namespace views of the flat translations, built on first use
+const nested = new WeakMap<Record<string, string>, NestedTranslations>()
+const namespaces = new WeakMap<Record<string, string>, Map<string, Record<string, string>>>()
+
+// Locales completed with the metadata derived from their codes, built on first use
+const described = new WeakMap<Locales, LocaleInfo>()
+
+// Disabled configurations with their single locale, built on first use
+const single = new WeakMap<Configuration, Configuration>()
+
+// Scripts written from right to left, for engines without Intl.Locale text info
+const RTL_SCRIPTS = ["Adlm", "Arab", "Hebr", "Mand", "Mend", "Nkoo", "Rohg", "Samr", "Syrc", "Thaa"]
+
 let currentLocale: string = ""
 
+// Listeners of Locale.onChange
+const listeners = new Set<(locale: string) => void>()
+
 // Try to get saved locale from localStorage on initialization
 if (typeof window !== "undefined") {
   try {
@@ -20,13 +70,74 @@ if (typeof window !== "undefined") {
     if (saved) {
       currentLocale = saved
     }
-  } catch (error) {
+  } catch {
     // Ignore localStorage errors (e.g., in private browsing)
   }
+
+  // Follow the locale set in other tabs
+  window.addEventListener("storage", (event) => {
+    if (event.key !== "astro-i18n-locale" || !event.newValue || event.newValue === currentLocale) {
+      return
+    }
+    currentLocale = event.newValue
+    changed()
+  })
 }
 
 const PREFIX = "[@mannisto/astro-i18n]"
 
+/**
+ * The language of a site with i18n disabled that configures no default locale
+ */
+export const LANGUAGE = "en"
+
+/**
+ * Returns the configuration a site runs with. With i18n disabled, the
+ * default locale, or "en" when it is not configured, is the only locale.
+ *
+ * @param config - The i18n configuration
+ * @returns The configuration with at least one locale
+ */
+export function singleLocale(config: Configuration): Configuration {
+  if (config.enabled) return config
+
+  let resolved = single.get(config)
+  if (!resolved) {
+    const code = config.default || LANGUAGE
+    const locale = config.locales?.find((l) => l.code === code) ?? { code }
+    resolved = { ...config, default: code, locales: [locale] }
+    single.set(config, resolved)
+  }
+  return resolved
+}
+
+/**
+ * Updates the `lang` and `dir` attributes of the document to the current
+ * locale and calls the listeners of `Locale.onChange` with it
+ */
+function changed(): void {
+  if (listeners.size === 0 && typeof document === "undefined") return
+  // Pages without the configuration, e.g. with `client: false`, have nothing to update
+  if (!(globalThis.__ASTRO_I18N_CONFIG__ ?? cache.i18n)) return
+
+  const code = Locale.current
+  if (typeof document !== "undefined") {
+    document.documentElement.lang = code
+    document.documentElement.dir = Locale.info(code).dir
+  }
+  for (const listener of listeners) {
+    listener(code)
+  }
+}
+
+/**
+ * Returns the locals of the request being rendered on demand, which hold
+ * its locale, or undefined during static builds and in the browser
+ */
+function scope(): { locale?: string } | undefined {
+  return globalThis.__ASTRO_I18N_SCOPE__?.getStore()
+}
+
 /**
  * Loads and validates the configuration file and
  * caches it for future use.
@@ -36,20 +147,278 @@ const PREFIX = "[@mannisto/astro-i18n]"
  * @returns       : The configuration object
  */
 export function config(): Configuration {
-  if (cache.i18n) return cache.i18n
-
-  // Get injected configuration from Astro integration
+  // Get injected configuration from Astro integration, which is replaced
+  // whenever the integration is set up again
   const injectedConfig = globalThis.__ASTRO_I18N_CONFIG__
   if (injectedConfig) {
-    cache.i18n = injectedConfig
-    return injectedConfig
+    cache.i18n = singleLocale(injectedConfig)
+    return cache.i18n
   }
 
+  if (cache.i18n) return cache.i18n
+
   throw new Error(
     `${PREFIX}: No i18n configuration found. Make sure to add the i18n integration to your astro.config.mjs`,
   )
 }
 
+/**
+ * Splits the dot-path keys of flat translations into nested objects
+ *
+ * @param flat - The flat translations
+ * @returns The nested translations
+ */
+function unflatten(flat: Record<string, string>): NestedTranslations {
+  const cached = nested.get(flat)
+  if (cached) return cached
+
+  // Nodes without a prototype, so that no key can reach Object.prototype
+  const tree: NestedTranslations = Object.create(null)
+  for (const [key, value] of Object.entries(flat)) {
+    const segments = key.split(".")
+    const leaf = segments.pop()!
+    let node = tree
+    for (const segment of segments) {
+      node[segment] ??= Object.create(null)
+      node = node[segment] as NestedTranslations
+    }
+    node[leaf] = value
+  }
+
+  nested.set(flat, tree)
+  return tree
+}
+
+/**
+ * Returns the translations of one namespace without the namespace prefix
+ *
+ * @param flat - The flat translations
+ * @param namespace - The namespace
+ * @param separator - The separator between the namespace and the key
+ * @returns The translations of the namespace
+ */
+function namespaced(
+  flat: Record<string, string>,
+  namespace: string,
+  separator: string,
+): Record<string, string> {
+  const views = namespaces.get(flat) ?? new Map<string, Record<string, string>>()
+  namespaces.set(flat, views)
+
+  let view = views.get(namespace)
+  if (!view) {
+    const prefix = `${namespace}${separator}`
+    view = Object.fromEntries(
+      Object.entries(flat)
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, value]) => [key.slice(prefix.length), value]),
+    )
+    views.set(namespace, view)
+  }
+  return view
+}
+
+/**
+ * Completes a locale with the name, endonym, text direction, region, script
+ * and hreflang derived from its code with `Intl` where they are not configured
+ *
+ * @param locale - The configured locale
+ * @returns The locale with its metadata filled in
+ */
+function describe(locale: Locales): LocaleInfo {
+  const cached = described.get(locale)
+  if (cached) return cached
+
+  const { code } = locale
+  const intl = new Intl.Locale(code)
+  const language = (display: string) =>
+    new Intl.DisplayNames([display], { type: "language" }).of(code) ?? code
+  // Text info is a method in newer engines and a getter in older ones
+  const text = intl as { getTextInfo?(): { direction?: string }; textInfo?: { direction?: string } }
+  const direction = text.getTextInfo?.().direction ?? text.textInfo?.direction
+  const endonym = language(code)
+
+  const info: LocaleInfo = {
+    ...locale,
+    name: locale.name ?? language("en"),
+    // Language names are lowercase in many languages, but stand alone here
+    endonym: locale.endonym ?? `${endonym.charAt(0).toLocaleUpperCase(code)}${endonym.slice(1)}`,
+    dir:
+      locale.dir ??
+      (direction === "rtl" || RTL_SCRIPTS.includes(intl.maximize().script ?? "") ? "rtl" : "ltr"),
+    region: locale.region ?? intl.region,
+    script: locale.script ?? intl.script,
+    hreflang: locale.hreflang ?? code,
+  }
+
+  described.set(locale, info)
+  return info
+}
+
+/**
+ * Returns the value of a record's own key, never one inherited from
+ * `Object.prototype` such as `constructor` for a locale of that name
+ */
+function own<T>(values: Record<string, T> | undefined, key: string): T | undefined {
+  return values && Object.hasOwn(values, key) ? values[key] : undefined
+}
+
+/**
+ * Returns the localized slug of each canonical path segment of a locale,
+ * from the configuration or the configured translation namespace
+ *
+ * @param code - The locale code
+ * @returns The slugs keyed by canonical segment
+ */
+function slugs(code: string): Record<string, string> {
+  const cfg = config()
+  if (!cfg.enabled) return {}
+
+  const source = cfg.routing?.slugs
+  if (typeof source === "string") {
+    const flat = own(globalThis.__ASTRO_I18N_TRANSLATIONS__, code) ?? {}
+    return namespaced(flat, source, cfg.translations?.separator ?? ".")
+  }
+  return own(source, code) ?? {}
+}
+
+type Presets = Required<Omit<LocaleFormats, "currency">>
+
+// Built-in presets of the formatters besides those of the locale
+const BUILT_IN: { [K in keyof Presets]: Presets[K] } = {
+  number: NUMBER_STYLES,
+  date: {
+    default: { dateStyle: "medium" },
+    ...Object.fromEntries(DATE_STYLES.map((style) => [style, { dateStyle: style }])),
+  },
+  time: {
+    default: { timeStyle: "short" },
+    ...Object.fromEntries(DATE_STYLES.map((style) => [style, { timeStyle: style }])),
+  },
+  relative: {},
+  list: {},
+}
+
+/**
+ * Resolves the options of a formatter, given as an object or as the name of
+ * a preset of the locale, the shared `translations.formats` or the built-in
+ * presets. The `default` preset is used when no options are given.
+ *
+ * @param kind   - The kind of formatter
+ * @param code   - The locale code
+ * @param option - The options or the name of a preset
+ * @returns The formatter options
+ * @throws If the preset does not exist
+ */
+function preset<K extends keyof Presets>(
+  kind: K,
+  code: string,
+  option: string | Presets[K][string] | undefined,
+): Presets[K][string] {
+  if (typeof option === "object") return option
+
+  const cfg = config()
+  const own = cfg.locales.find((l) => l.code === code)?.formats?.[kind]
+  const shared = (cfg.translations?.formats as LocaleFormats | undefined)?.[kind]
+  const name = option ?? "default"
+  const found = own?.[name] ?? shared?.[name] ?? BUILT_IN[kind][name]
+  if (found) return found as Presets[K][string]
+  if (option === undefined) return {} as Presets[K][string]
+
+  throw new Error(`${PREFIX}: Unknown ${kind} format "${name}" for locale "${code}"`)
+}
+
+/**
+ * Returns the locales whose translations are tried, in order, for a locale.
+ * Uses the fallback chain configured in the translations or the locale,
+ * or the parent tags of the locale code
+ * (e.g. `zh-Hant-TW` → `zh-Hant` → `zh`), always ending with the default.
+ *
+ * @param code - The locale code
+ * @returns The locale codes to try
+ */
+function chain(code: string): string[] {
+  const cfg = config()
+  const segments = code.split("-")
+  const parents =
+    own(cfg.translations?.fallback, code) ??
+    cfg.locales.find((l) => l.code === code)?.fallback ??
+    segments.slice(1).map((_, i) => segments.slice(0, segments.length - 1 - i).join("-"))
+
+  return [...new Set([code, ...parents, cfg.default])]
+}
+
+/**
+ * Records a lookup that fell back to another locale or was not found at all
+ */
+function record(key: string, locale: string, resolved?: string): void {
+  globalThis.__ASTRO_I18N_FALLBACKS__ ??= new Map()
+  globalThis.__ASTRO_I18N_FALLBACKS__.set(`${locale}:${key}`, { key, locale, resolved })
+}
+
+/**
+ * Returns the `language_TERRITORY` form of a locale that Open Graph expects,
+ * using its configured region or else its most likely one, e.g. `fi` → `fi_FI`
+ */
+function territory(code: string): string {
+  const { language, region } = new Intl.Locale(code).maximize()
+  const found = Locale.info(code).region ?? region
+  return found ? `${language}_${found}` : language
+}
+
+/**
+ * Returns the `formats.currency` of a locale
+ */
+function currencyOf(code: string): string | undefined {
+  return config().locales.find((l) => l.code === code)?.formats?.currency
+}
+
+/**
+ * Formats a message in a locale. Currency styles naming no currency use
+ * the currency of the locale, or else that of the locale the message
+ * came from when it fell back to another locale.
+ *
+ * @throws If a currency style finds no currency
+ */
+function render(text: string, vars: Values, locale?: string, source?: string): string {
+  return format(compile(text), vars, {
+    get locale() {
+      return locale || Locale.current
+    },
+    get formats() {
+      return config().translations?.formats
+    },
+    get currency() {
+      const currency = currencyOf(this.locale) ?? (source ? currencyOf(source) : undefined)
+      if (!currency) {
+        throw new Error(
+          `${PREFIX}: No currency for locale "${this.locale}", set its formats.currency`,
+        )
+      }
+      return currency
+    },
+  })
+}
+
+/**
+ * Translates a key with `Locale.t`
+ */
+const translate: Translate = (key, ...[vars, locale]) => {
+  const code = locale || Locale.current
+
+  for (const candidate of chain(code)) {
+    const messages = Locale.translations(candidate)
+    if (Object.hasOwn(messages, key)) {
+      const text = messages[key]
+      if (candidate !== code) record(key, code, candidate)
+      return render(text, (vars ?? {}) as Values, code, candidate)
+    }
+  }
+
+  record(key, code)
+  return key
+}
+
 /**
  * Locale namespace functions
  */
@@ -62,9 +431,19 @@ export const Locale = {
   },
 
   /**
-   * Returns the current locale
+   * Returns the current locale, scoped to the request when rendering on demand.
+   * Always the default locale when i18n is disabled.
    */
   get current(): string {
+    if (!config().enabled) {
+      return config().default
+    }
+
+    const request = scope()?.locale
+    if (request && Locale.supported.includes(request)) {
+      return request
+    }
+
     // If we have a saved locale, validate it's still supported
     if (currentLocale) {
       const supported = config().locales.map((l) => l.code)
@@ -76,7 +455,7 @@ export const Locale = {
       if (typeof window !== "undefined") {
         try {
           localStorage.removeItem("astro-i18n-locale")
-        } catch (error) {
+        } catch {
           // Ignore localStorage errors
         }
       }
@@ -99,88 +478,422 @@ export const Locale = {
   },
 
   /**
-   * Sets the current locale and saves it to localStorage
+   * Sets the current locale and saves it to localStorage. When rendering
+   * on demand, only the locale of the current request is changed. Does
+   * nothing when i18n is disabled.
    */
   set(locale: string): void {
+    // Checked without config() so that the locale can be reset before the integration runs
+    if ((globalThis.__ASTRO_I18N_CONFIG__ ?? cache.i18n)?.enabled === false) {
+      return
+    }
+
+    const request = scope()
+    if (request) {
+      request.locale = locale
+      return
+    }
+
+    const previous = currentLocale
     currentLocale = locale
-    
+
     // Save to localStorage if available
     if (typeof window !== "undefined") {
       try {
         localStorage.setItem("astro-i18n-locale", locale)
-      } catch (error) {
+      } catch {
         // Ignore localStorage errors (e.g., in private browsing)
       }
     }
+
+    if (locale !== previous) {
+      changed()
+    }
   },
 
   /**
-   * Returns the locale configuration for a given locale
+   * Calls a listener whenever the current locale changes outside of a
+   * request: with `Locale.set`, or in another browser tab
+   *
+   * @param listener - Called with the new locale
+   * @returns A function that removes the listener
+   */
+  onChange(listener: (locale: string) => void): () => void {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+
+  /**
+   * Calls a function with the current locale now and whenever it changes,
+   * following the store contract of Svelte, e.g. `$locale` with
+   * `const locale = { subscribe: Locale.subscribe }`
+   *
+   * @param run - Called with the current locale
+   * @returns A function that stops the calls
+   */
+  subscribe(run: (locale: string) => void): () => void {
+    run(Locale.current)
+    return Locale.onChange(run)
+  },
+
+  /**
+   * Returns the locale configuration for a given locale, with the name,
+   * endonym, direction, region, script and hreflang derived from the code
+   * where they are not configured
    * Falls back to default locale if the requested locale is not found
    */
-  info(locale?: string): Locales {
+  info(locale?: string): LocaleInfo {
     const code = locale || Locale.current
     const found = config().locales.find((l) => l.code === code)
     if (found) {
-      return found
+      return describe(found)
     }
-    
+
     // Fall back to default locale if requested locale not found
     const defaultLocale = config().locales.find((l) => l.code === config().default)
     if (defaultLocale) {
-      return defaultLocale
+      return describe(defaultLocale)
     }
-    
+
     // If even default locale is not found (shouldn't happen with validation), return first available
-    return config().locales[0]
+    return describe(config().locales[0])
   },
 
   /**
-   * Returns the URL for a given pathname and locale
+   * Returns the routing strategy, domains and query parameter, the localized
+   * slugs of every locale, and the base path and trailing slash setting of
+   * the project, with their defaults applied
+   */
+  get routing(): Required<
+    Omit<Routing, "slugs"> & Omit<Urls, "site"> & { slugs: Record<string, Record<string, string>> }
+  > {
+    const cfg = config()
+    return {
+      strategy: strategy(cfg),
+      domains: cfg.routing?.domains ?? {},
+      query: cfg.routing?.query ?? QUERY,
+      slugs: Object.fromEntries(Locale.supported.map((code) => [code, slugs(code)])),
+      base: cfg.urls?.base ?? "/",
+      trailingSlash: cfg.urls?.trailingSlash ?? "ignore",
+    }
+  },
+
+  /**
+   * Returns the URL for a given pathname and locale, following the
+   * configured routing strategy and localized slugs
    */
   url(pathname: string = "/", locale?: string): string {
     const code = locale || Locale.current
-    if (!pathname.startsWith("/")) pathname = `/${pathname}`
-    return `/${code}${pathname}`
+    return localize(config(), pathname, code, slugs(code))
+  },
+
+  /**
+   * Returns the canonical route of a localized URL, without its locale
+   * and with its localized slugs replaced by the canonical segments
+   *
+   * @param url    - The localized URL or path, e.g. "/fi/tietoa"
+   * @param locale - Optional locale of the slugs, defaults to the locale
+   *                 the URL names or the current locale
+   * @returns The canonical path, e.g. "/about"
+   */
+  canonical(url: string | URL, locale?: string): string {
+    const { locale: named, path } = delocalize(config(), url)
+    return untranslatePath(path, slugs(locale || named || Locale.current))
   },
 
   /**
-   * Replaces variable placeholders in a text string
-   * @param text - The text containing variable placeholders like {name}
+   * Returns the URL of the current page in another locale, keeping its
+   * query string and hash, e.g. for a language switcher
+   *
+   * @param url    - The current URL or path, e.g. `Astro.url`
+   * @param locale - The locale to switch to
+   * @returns The localized URL of the same page
+   */
+  switch(url: string | URL, locale: string): string {
+    return Locale.url(Locale.canonical(url), locale)
+  },
+
+  /**
+   * Returns the URL of a page in every locale for hreflang links, along
+   * with its canonical URL and language attributes. URLs are made absolute
+   * with the `site` of the project, or else the origin of the URL.
+   *
+   * @param url - The URL or path of the page, e.g. `Astro.url`
+   * @returns The alternates of the page
+   */
+  alternates(url: string | URL = "/"): Alternates {
+    const cfg = config()
+    const code = delocalize(cfg, url).locale || Locale.current
+    // Without a site, links stay root-relative rather than naming the dev server
+    const site = cfg.urls?.site
+    const absolute = (href: string) => (site ? new URL(href, site).href : href)
+    // The hash is not part of the address of a page
+    const path = Locale.canonical(url).replace(/#.*$/, "")
+
+    return {
+      lang: code,
+      dir: Locale.info(code).dir,
+      canonical: absolute(Locale.url(path, code)),
+      // A site with i18n disabled has a single language and no alternates
+      links: cfg.enabled
+        ? [
+            ...Locale.supported.map((locale) => ({
+              hreflang: Locale.info(locale).hreflang,
+              href: absolute(Locale.url(path, locale)),
+            })),
+            { hreflang: "x-default", href: absolute(Locale.url(path, cfg.default)) },
+          ]
+        : [],
+      og: {
+        locale: territory(code),
+        alternates: Locale.supported.filter((locale) => locale !== code).map(territory),
+      },
+    }
+  },
+
+  /**
+   * Returns the paths of a localized page for `getStaticPaths`, one for each
+   * supported locale by default. The generator returns the pages of a
+   * locale, e.g. its entries of a content collection, and locales it returns
+   * no pages for are left out. String params are localized with the slugs of
+   * the locale, and the locale is added to the params of the prefix
+   * strategies, undefined for the default locale with `prefix-except-default`,
+   * and always to the props. The `domains` and `query` strategies serve every
+   * locale from the same path, so like with i18n disabled, only the default
+   * locale has pages, without a locale param.
+   *
+   * @param generator - Optional function returning the pages of a locale
+   * @param options   - The name of the locale param and the locales to exclude
+   * @returns The params and props of every page
+   */
+  async staticPaths<P extends Record<string, unknown> = Record<string, unknown>>(
+    generator?: (
+      locale: string,
+    ) => StaticPathEntry<P>[] | undefined | Promise<StaticPathEntry<P>[] | undefined>,
+    options: StaticPathsOptions = {},
+  ): Promise<StaticPath<P>[]> {
+    const cfg = config()
+    const param = options.param ?? "locale"
+    const paths: StaticPath<P>[] = []
+    const prefixed = cfg.enabled && isPrefixed(cfg)
+
+    for (const code of prefixed ? Locale.supported : [cfg.default]) {
+      if (options.exclude?.includes(code)) continue
+
+      const entries: StaticPathEntry<P>[] = generator ? ((await generator(code)) ?? []) : [{}]
+      const localized = slugs(code)
+      const prefix =
+        strategy(cfg) === "prefix-except-default" && code === cfg.default ? undefined : code
+
+      for (const entry of entries) {
+        const params = Object.fromEntries(
+          Object.entries(entry.params ?? {}).map(([name, value]) => [
+            name,
+            typeof value === "string" ? translatePath(value, localized) : value,
+          ]),
+        )
+        paths.push({
+          params: prefixed ? { ...params, [param]: prefix } : params,
+          props: { ...entry.props, locale: code } as P & { locale: string },
+        })
+      }
+    }
+
+    return paths
+  },
+
+  /**
+   * Locale-aware formatting with cached `Intl` formatters. Each takes the
+   * formatter options or the name of a preset from the `formats` of the
+   * locale or `translations.formats`, and the locale, which defaults to
+   * the current locale.
+   */
+  format: {
+    /**
+     * Formats a number, e.g. `Locale.format.number(0.25, "percent")`
+     */
+    number(
+      value: number | bigint,
+      options?: string | Intl.NumberFormatOptions,
+      locale?: string,
+    ): string {
+      const code = locale || Locale.current
+      return formatter(Intl.NumberFormat, code, preset("number", code, options)).format(value)
+    },
+
+    /**
+     * Formats an amount of money in the `formats.currency` of the locale,
+     * unless the options name another currency
+     *
+     * @throws If neither the locale nor the options have a currency
+     */
+    currency(
+      value: number | bigint,
+      options?: string | Intl.NumberFormatOptions,
+      locale?: string,
+    ): string {
+      const code = locale || Locale.current
+      const currency = currencyOf(code)
+      const resolved: Intl.NumberFormatOptions = {
+        style: "currency",
+        currency,
+        ...(options === undefined ? {} : preset("number", code, options)),
+      }
+      if (!resolved.currency) {
+        throw new Error(`${PREFIX}: No currency for locale "${code}", set its formats.currency`)
+      }
+      return formatter(Intl.NumberFormat, code, resolved).format(value)
+    },
+
+    /**
+     * Formats the date of a date, `medium` by default
+     */
+    date(
+      value: Date | number | string,
+      options?: string | Intl.DateTimeFormatOptions,
+      locale?: string,
+    ): string {
+      const code = locale || Locale.current
+      const date = value instanceof Date ? value : new Date(value)
+      return formatter(Intl.DateTimeFormat, code, preset("date", code, options)).format(date)
+    },
+
+    /**
+     * Formats the time of a date, `short` by default
+     */
+    time(
+      value: Date | number | string,
+      options?: string | Intl.DateTimeFormatOptions,
+      locale?: string,
+    ): string {
+      const code = locale || Locale.current
+      const date = value instanceof Date ? value : new Date(value)
+      return formatter(Intl.DateTimeFormat, code, preset("time", code, options)).format(date)
+    },
+
+    /**
+     * Formats a relative time, e.g. `Locale.format.relative(-1, "day")`
+     */
+    relative(
+      value: number,
+      unit: Intl.RelativeTimeFormatUnit,
+      options?: string | Intl.RelativeTimeFormatOptions,
+      locale?: string,
+    ): string {
+      const code = locale || Locale.current
+      return formatter(Intl.RelativeTimeFormat, code, preset("relative", code, options)).format(
+        value,
+        unit,
+      )
+    },
+
+    /**
+     * Formats a list, e.g. "a, b and c"
+     */
+    list(
+      values: Iterable<string>,
+      options?: string | Intl.ListFormatOptions,
+      locale?: string,
+    ): string {
+      const code = locale || Locale.current
+      return formatter(Intl.ListFormat, code, preset("list", code, options)).format(values)
+    },
+  },
+
+  /**
+   * Formats an ICU message, replacing placeholders like {name} and
+   * resolving plural, select, number, date and time arguments
+   * @param text - The message text, e.g. "{count, plural, one {# item} other {# items}}"
    * @param vars - Object containing variable values
+   * @param locale - Optional locale code for plural rules and formatting, defaults to current locale
    * @returns The text with variables replaced
    */
-  replace(text: string, vars: Record<string, string | number>): string {
-    let result = text
-    for (const [k, v] of Object.entries(vars)) {
-      result = result.replace(`{${k}}`, String(v))
-    }
-    return result
+  replace<T extends string>(text: T, vars: MessageVariables<T>, locale?: string): string {
+    return render(text, vars as Values, locale)
+  },
+
+  /**
+   * Translates a key, trying the fallback chain of the locale before
+   * returning the key itself
+   * @param key - The translation key
+   * @param vars - Optional object containing variable values
+   * @param locale - Optional locale code, defaults to current locale
+   * @returns The translated text with variables replaced
+   */
+  t: translate,
+
+  /**
+   * Returns the lookups made with `Locale.t` that fell back to another
+   * locale, or were not found at all when `resolved` is undefined
+   */
+  fallbacks(): Fallback[] {
+    return [...(globalThis.__ASTRO_I18N_FALLBACKS__?.values() ?? [])]
+  },
+
+  /**
+   * Loads the translations of a locale, or of one of its namespaces, in the
+   * browser. Each is a separate chunk fetched on first use, after which
+   * `Locale.t` and `Locale.translations` can use it. Does nothing on the
+   * server, where every translation is always available.
+   *
+   * @param locale    - Optional locale code, defaults to current locale
+   * @param namespace - Optional namespace to load instead of the whole locale
+   */
+  async load(locale?: string, namespace?: string): Promise<void> {
+    const code = locale || Locale.current
+    const loader = globalThis.__ASTRO_I18N_LOADERS__?.[namespace ? `${code}/${namespace}` : code]
+    if (!loader) return
+
+    const { default: messages } = await loader()
+    const translations = globalThis.__ASTRO_I18N_TRANSLATIONS__ ?? {}
+    // A new object so that the cached nested and namespace views are rebuilt
+    translations[code] = { ...translations[code], ...messages }
+    globalThis.__ASTRO_I18N_TRANSLATIONS__ = translations
   },
 
   /**
    * Returns the translations object for the current or specified locale.
    * Uses translations loaded at build time and injected via global variables.
    *
-   * @param locale - Optional locale code, defaults to current locale
+   * @param locale    - Optional locale code, defaults to current locale
+   * @param namespace - Optional namespace to return, keyed without its prefix
+   * @param options   - Set `nested` to get the keys grouped by their dot-path segments
    * @returns The translations object (synchronous for static generation)
    */
-  translations(locale?: string): Record<string, string> {
+  translations: ((
+    locale?: string,
+    namespace?: string | TranslationsOptions,
+    options?: TranslationsOptions,
+  ) => {
     const cfg = config()
     const code = locale || Locale.current
 
+    if (typeof namespace === "object") {
+      options = namespace
+      namespace = undefined
+    }
+
     // If translations are disabled, return empty object
     if (!cfg.translations?.enabled) {
       return {}
     }
 
     // Get translations from injected global variable
-    const injectedTranslations = globalThis.__ASTRO_I18N_TRANSLATIONS__
-    if (injectedTranslations?.[code]) {
-      return injectedTranslations[code]
+    let flat = own(globalThis.__ASTRO_I18N_TRANSLATIONS__, code) ?? {}
+    if (namespace) {
+      flat = namespaced(flat, namespace, cfg.translations.separator ?? ".")
     }
-
-    // Return empty object if no translations found
-    return {}
+    return options?.nested ? unflatten(flat) : flat
+  }) as {
+    (locale?: string, options?: { nested?: false }): Dictionary
+    (locale: string | undefined, options: { nested: true }): NestedTranslations
+    <N extends string>(
+      locale: string | undefined,
+      namespace: N,
+      options?: { nested?: false },
+    ): NamespaceDictionary<N>
+    (locale: string | undefined, namespace: string, options: { nested: true }): NestedTranslations
   },
 }
@@ -0,0 +1,396 @@
+import type { Formats, Values } from "../types"
+
+/**
+ * A parsed ICU message, a list of literal text and argument nodes
+ */
+export type Message = Node[]
+
+/**
+ * A node of a parsed ICU message
+ */
+export type Node =
+  | string
+  | { type: "pound" }
+  | { type: "argument"; name: string; source: string }
+  | { type: "number" | "date" | "time"; name: string; style?: string; source: string }
+  | {
+      type: "plural" | "selectordinal" | "select"
+      name: string
+      offset: number
+      options: Record<string, Message>
+      source: string
+    }
+
+/**
+ * Locale and formats used when formatting a message, resolved lazily so
+ * that plain messages can be formatted without any configuration
+ */
+export interface Context {
+  readonly locale: string
+  readonly formats: Formats | undefined
+  /** The `formats.currency` of the locale, used by currency styles that name none */
+  readonly currency?: string
+}
+
+// Parsed messages shared between the integration and the runtime
+declare global {
+  var __ASTRO_I18N_MESSAGES__: Map<string, Message> | undefined
+}
+
+const PLURAL_CATEGORIES = ["zero", "one", "two", "few", "many", "other"]
+
+/**
+ * Built-in date and time styles of `Intl.DateTimeFormat`
+ */
+export const DATE_STYLES = ["short", "medium", "long", "full"]
+
+/**
+ * Built-in number styles
+ */
+export const NUMBER_STYLES: Record<string, Intl.NumberFormatOptions> = {
+  integer: { maximumFractionDigits: 0 },
+  percent: { style: "percent" },
+  currency: { style: "currency" },
+}
+
+type Formatter =
+  | Intl.NumberFormat
+  | Intl.DateTimeFormat
+  | Intl.PluralRules
+  | Intl.RelativeTimeFormat
+  | Intl.ListFormat
+
+const formatters = new Map<string, Formatter>()
+
+/**
+ * Parses an ICU message into nodes
+ *
+ * @param text - The message text
+ * @returns The parsed message
+ * @throws If the message has invalid syntax
+ */
+export function parse(text: string): Message {
+  let pos = 0
+
+  const fail = (reason: string): never => {
+    throw new Error(`${reason} at column ${pos + 1}`)
+  }
+
+  const whitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++
+  }
+
+  const word = (pattern: RegExp): string => {
+    pattern.lastIndex = pos
+    const match = pattern.exec(text)
+    pos += match ? match[0].length : 0
+    return match ? match[0] : ""
+  }
+
+  const expect = (char: string) => {
+    if (text[pos] !== char) fail(`Expected "${char}"`)
+    pos++
+  }
+
+  const nodes = (plural: boolean, nested: boolean): Message => {
+    const result: Message = []
+    let literal = ""
+
+    const flush = () => {
+      if (literal) result.push(literal)
+      literal = ""
+    }
+
+    while (pos < text.length) {
+      const char = text[pos]
+
+      if (char === "{") {
+        flush()
+        result.push(argument(plural))
+      } else if (char === "}") {
+        if (nested) break
+        fail('Unexpected "}"')
+      } else if (char === "#" && plural) {
+        flush()
+        result.push({ type: "pound" })
+        pos++
+      } else if (char === "'") {
+        const next = text[pos + 1]
+        if (next === "'") {
+          literal += "'"
+          pos += 2
+        } else if (next === "{" || next === "}" || next === "|" || (next === "#" && plural)) {
+          // Quoted literal text up to the next lone apostrophe
+          pos++
+          while (pos < text.length) {
+            if (text[pos] === "'" && text[pos + 1] === "'") {
+              literal += "'"
+              pos += 2
+            } else if (text[pos] === "'") {
+              pos++
+              break
+            } else {
+              literal += text[pos++]
+            }
+          }
+        } else {
+          literal += char
+          pos++
+        }
+      } else {
+        literal += char
+        pos++
+      }
+    }
+
+    flush()
+    return result
+  }
+
+  const argument = (plural: boolean): Node => {
+    const start = pos
+    expect("{")
+    whitespace()
+    const name = word(/[^\s{},]+/y)
+    if (!name) fail("Expected argument name")
+    whitespace()
+
+    if (text[pos] === "}") {
+      pos++
+      return { type: "argument", name, source: text.slice(start, pos) }
+    }
+
+    expect(",")
+    whitespace()
+    const type = word(/[a-z]+/y)
+    whitespace()
+
+    if (type === "number" || type === "date" || type === "time") {
+      let style: string | undefined
+      if (text[pos] === ",") {
+        pos++
+        style = word(/[^{}]*/y).trim()
+        if (!style) fail(`Expected ${type} style`)
+      }
+      expect("}")
+      return { type, name, style, source: text.slice(start, pos) }
+    }
+
+    if (type === "plural" || type === "selectordinal" || type === "select") {
+      expect(",")
+      whitespace()
+
+      let offset = 0
+      if (type !== "select" && text.startsWith("offset:", pos)) {
+        pos += "offset:".length
+        whitespace()
+        const value = word(/\d+/y)
+        if (!value) fail("Expected plural offset")
+        offset = Number(value)
+      }
+
+      const options: Record<string, Message> = {}
+      const inner = plural || type !== "select"
+      for (;;) {
+        whitespace()
+        if (text[pos] === "}" || pos >= text.length) break
+
+        const selector = word(/[^\s{}]+/y)
+        if (!selector) fail("Expected selector")
+        if (
+          type !== "select" &&
+          !/^=\d+$/.test(selector) &&
+          !PLURAL_CATEGORIES.includes(selector)
+        ) {
+          fail(`Invalid plural selector "${selector}"`)
+        }
+        if (Object.hasOwn(options, selector)) fail(`Duplicate selector "${selector}"`)
+
+        whitespace()
+        expect("{")
+        options[selector] = nodes(inner, true)
+        expect("}")
+      }
+
+      if (!options.other) fail(`Missing "other" option in ${type}`)
+      expect("}")
+      return { type, name, offset, options, source: text.slice(start, pos) }
+    }
+
+    return fail(type ? `Unknown argument type "${type}"` : "Expected argument type")
+  }
+
+  return nodes(false, false)
+}
+
+/**
+ * Returns the parsed form of a message, parsing it on first use
+ *
+ * @param text - The message text
+ * @returns The parsed message
+ */
+export function compile(text: string): Message {
+  globalThis.__ASTRO_I18N_MESSAGES__ ??= new Map()
+  let message = globalThis.__ASTRO_I18N_MESSAGES__.get(text)
+  if (!message) {
+    message = parse(text)
+    globalThis.__ASTRO_I18N_MESSAGES__.set(text, message)
+  }
+  return message
+}
+
+/**
+ * Returns the names of the variables used by a message
+ *
+ * @param message - The parsed message
+ * @returns The variable names in order of first use
+ */
+export function variables(message: Message): string[] {
+  const names = new Set<string>()
+  const visit = (nodes: Message) => {
+    for (const node of nodes) {
+      if (typeof node === "string" || node.type === "pound") continue
+      names.add(node.name)
+      if ("options" in node) {
+        for (const option of Object.values(node.options)) visit(option)
+      }
+    }
+  }
+  visit(message)
+  return [...names]
+}
+
+/**
+ * Checks that every number, date and time style used by a message
+ * is either built in or defined in the configured formats
+ *
+ * @param message  - The parsed message
+ * @param formats  - The configured formats
+ * @param currency - The currency of the locale
+ * @throws If a style is unknown
+ */
+export function check(message: Message, formats: Formats | undefined, currency?: string): void {
+  for (const node of message) {
+    if (typeof node === "string") continue
+
+    if (node.type === "number" && node.style) {
+      const options = formats?.number?.[node.style] ?? NUMBER_STYLES[node.style]
+      if (!options) {
+        throw new Error(`Unknown number style "${node.style}" in ${node.source}`)
+      }
+      if (options.style === "currency" && !options.currency && !currency) {
+        throw new Error(
+          `Number style "${node.style}" in ${node.source} needs a currency code in translations.formats.number or the formats.currency of the locale`,
+        )
+      }
+    } else if ((node.type === "date" || node.type === "time") && node.style) {
+      if (!DATE_STYLES.includes(node.style) && !formats?.[node.type]?.[node.style]) {
+        throw new Error(`Unknown ${node.type} style "${node.style}" in ${node.source}`)
+      }
+    } else if ("options" in node) {
+      for (const option of Object.values(node.options)) check(option, formats, currency)
+    }
+  }
+}
+
+/**
+ * Returns a cached Intl formatter for the given locale and options
+ */
+export function formatter<T extends Formatter>(
+  Type: new (locale: string, options: object) => T,
+  locale: string,
+  options: object,
+): T {
+  const key = `${Type.name}:${locale}:${JSON.stringify(options)}`
+  let instance = formatters.get(key) as T | undefined
+  if (!instance) {
+    instance = new Type(locale, options)
+    formatters.set(key, instance)
+  }
+  return instance
+}
+
+/**
+ * Formats a parsed message with the given values. Arguments without a
+ * value are left in the output as they were written.
+ *
+ * @param message - The parsed message
+ * @param values - The values to interpolate
+ * @param context - The locale and formats to use
+ * @param count - The value `#` refers to inside a plural
+ * @returns The formatted text
+ */
+export function format(message: Message, values: Values, context: Context, count?: number): string {
+  let result = ""
+
+  for (const node of message) {
+    if (typeof node === "string") {
+      result += node
+      continue
+    }
+
+    if (node.type === "pound") {
+      result +=
+        count === undefined ? "#" : formatter(Intl.NumberFormat, context.locale, {}).format(count)
+      continue
+    }
+
+    const value = values[node.name]
+    if (value === undefined) {
+      result += node.source
+      continue
+    }
+
+    switch (node.type) {
+      case "argument":
+        result += value instanceof Date ? value.toLocaleString(context.locale) : String(value)
+        break
+      case "number": {
+        const style = node.style
+          ? (context.formats?.number?.[node.style] ?? NUMBER_STYLES[node.style])
+          : {}
+        const options =
+          style.style === "currency" && !style.currency
+            ? { ...style, currency: context.currency }
+            : style
+        result += formatter(Intl.NumberFormat, context.locale, options).format(Number(value))
+        break
+      }
+      case "date":
+      case "time": {
+        const options = node.style
+          ? (context.formats?.[node.type]?.[node.style] ?? {
+              [node.type === "date" ? "dateStyle" : "timeStyle"]: node.style,
+            })
+          : { [node.type === "date" ? "dateStyle" : "timeStyle"]: "medium" }
+        const date = value instanceof Date ? value : new Date(value)
+        result += formatter(Intl.DateTimeFormat, context.locale, options).format(date)
+        break
+      }
+      case "select": {
+        const key = String(value)
+        const option = Object.hasOwn(node.options, key) ? node.options[key] : node.options.other
+        result += format(option, values, context, count)
+        break
+      }
+      case "plural":
+      case "selectordinal": {
+        const number = Number(value)
+        const exact = node.options[`=${number}`]
+        if (exact) {
+          result += format(exact, values, context, number - node.offset)
+          break
+        }
+        const rules = formatter(Intl.PluralRules, context.locale, {
+          type: node.type === "plural" ? "cardinal" : "ordinal",
+        })
+        const category = rules.select(number - node.offset)
+        const option = node.options[category] ?? node.options.other
+        result += format(option, values, context, number - node.offset)
+        break
+      }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,53 @@
+/**
+ * Parses an `Accept-Language` header into language tags, most preferred
+ * first, leaving out the wildcard and tags with a quality of zero
+ *
+ * @param header - The header value, e.g. "fi-FI,fi;q=0.9,en;q=0.8"
+ * @returns The language tags in order of preference
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) return []
+
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";")
+      const quality = params.map((param) => param.trim()).find((param) => param.startsWith("q="))
+      const q = quality ? Number(quality.slice(2)) : 1
+      return { tag: tag.trim(), q: Number.isNaN(q) ? 0 : q, index }
+    })
+    .filter(({ tag, q }) => tag && tag !== "*" && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(({ tag }) => tag)
+}
+
+/**
+ * Picks the supported locale that best matches a list of preferred
+ * languages. Each preference is matched exactly, then by its parent tags
+ * (`fi-FI` → `fi`), then by any supported locale of the same language
+ * (`en-GB` → `en-US`), before moving on to the next preference.
+ *
+ * @param preferred - The preferred language tags, most preferred first
+ * @param supported - The supported locale codes
+ * @returns The best matching locale code, or undefined if none match
+ */
+export function negotiate(
+  preferred: readonly string[],
+  supported: readonly string[],
+): string | undefined {
+  const find = (tag: string) => supported.find((code) => code.toLowerCase() === tag.toLowerCase())
+
+  for (const tag of preferred) {
+    const segments = tag.split("-")
+    for (let i = segments.length; i > 0; i--) {
+      const match = find(segments.slice(0, i).join("-"))
+      if (match) return match
+    }
+
+    const language = segments[0].toLowerCase()
+    const sibling = supported.find((code) => code.split("-")[0].toLowerCase() === language)
+    if (sibling) return sibling
+  }
+
+  return undefined
+}
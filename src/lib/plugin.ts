@@ -0,0 +1,153 @@
+import type { Plugin, ViteDevServer } from "vite"
+import type { Configuration } from "../types.js"
+
+/**
+ * Prefix of the virtual modules provided by the plugin
+ */
+export const VIRTUAL = "virtual:@mannisto/astro-i18n"
+
+/**
+ * Options of the Vite plugin
+ */
+export interface PluginOptions {
+  config: Configuration
+  translations(): Record<string, Record<string, string>>
+  namespaces(): Record<string, string[]>
+  error?(): Error | undefined
+}
+
+/**
+ * Returns the parts of the configuration the browser needs,
+ * leaving out build-time options such as file paths
+ */
+export function clientConfig(config: Configuration): Configuration {
+  const { enabled, default: locale, locales, translations, routing, urls } = config
+  return {
+    enabled,
+    default: locale,
+    locales,
+    routing,
+    urls,
+    translations: translations && {
+      enabled: translations.enabled,
+      separator: translations.separator,
+      fallback: translations.fallback,
+      formats: translations.formats,
+    },
+  }
+}
+
+/**
+ * Creates the Vite plugin that serves the configuration and translations
+ * as virtual modules:
+ *
+ * - `/server` exports the configuration and every translation for rendering
+ *   on the server
+ * - `/client` exports the client configuration and a loader for every
+ *   locale and namespace, each of which becomes its own chunk, and makes
+ *   them available to the `Locale` API in the browser
+ * - `/translations/<code>[/<namespace>]` exports the translations of a
+ *   locale, or of one of its namespaces
+ * - `/middleware` is the middleware added by the integration, which makes
+ *   the configuration and translations available to requests that reach no
+ *   page, before any page has been loaded
+ *
+ * With the `"auto"` client delivery, every browser module that reads the
+ * injected configuration imports `/client`, so only pages whose scripts
+ * use the `Locale` API receive it.
+ *
+ * While the translations fail to load during dev, every virtual module
+ * throws the error so that it is shown in the error overlay.
+ */
+export function vitePlugin(options: PluginOptions): Plugin {
+  const separator = options.config.translations?.separator ?? "."
+
+  return {
+    name: "@mannisto/astro-i18n",
+    resolveId(id) {
+      if (id.startsWith(`${VIRTUAL}/`)) {
+        return `\0${id}`
+      }
+    },
+    load(id) {
+      if (!id.startsWith(`\0${VIRTUAL}/`)) {
+        return
+      }
+
+      const error = options.error?.()
+      if (error) {
+        throw error
+      }
+
+      const [kind, code, namespace] = id.slice(VIRTUAL.length + 2).split("/")
+      const translations = options.translations()
+
+      if (kind === "server") {
+        return [
+          `export const config = ${JSON.stringify(options.config)};`,
+          `export const translations = ${JSON.stringify(translations)};`,
+        ].join("\n")
+      }
+
+      if (kind === "middleware") {
+        return [
+          `import { config, translations } from "${VIRTUAL}/server";`,
+          `export { onRequest } from "@mannisto/astro-i18n/middleware";`,
+          "globalThis.__ASTRO_I18N_CONFIG__ = config;",
+          "globalThis.__ASTRO_I18N_TRANSLATIONS__ = translations;",
+        ].join("\n")
+      }
+
+      if (kind === "client") {
+        const namespaces = options.namespaces()
+        const keys = Object.keys(translations).flatMap((locale) => [
+          locale,
+          ...(namespaces[locale] ?? []).map((name) => `${locale}/${name}`),
+        ])
+        const loaders = keys.map(
+          (key) => `  ${JSON.stringify(key)}: () => import("${VIRTUAL}/translations/${key}"),`,
+        )
+        return [
+          `export const config = ${JSON.stringify(clientConfig(options.config))};`,
+          `export const loaders = {\n${loaders.join("\n")}\n};`,
+          "globalThis.__ASTRO_I18N_CONFIG__ ??= config;",
+          "globalThis.__ASTRO_I18N_LOADERS__ = loaders;",
+        ].join("\n")
+      }
+
+      if (kind === "translations" && code) {
+        let messages = translations[code] ?? {}
+        if (namespace) {
+          const prefix = `${namespace}${separator}`
+          messages = Object.fromEntries(
+            Object.entries(messages).filter(([key]) => key.startsWith(prefix)),
+          )
+        }
+        return `export default ${JSON.stringify(messages)};`
+      }
+    },
+    transform(code, id, transformOptions) {
+      if (transformOptions?.ssr || (options.config.client ?? "auto") !== "auto") {
+        return
+      }
+      if (id.startsWith("\0") || !code.includes("__ASTRO_I18N_CONFIG__")) {
+        return
+      }
+      return { code: `import "${VIRTUAL}/client";\n${code}`, map: null }
+    },
+  }
+}
+
+/**
+ * Invalidates the virtual modules of the plugin and the modules importing
+ * them, so that they are loaded again with the current translations
+ *
+ * @param server - The Vite dev server
+ */
+export function invalidate(server: ViteDevServer): void {
+  for (const [id, mod] of server.moduleGraph.idToModuleMap) {
+    if (id.startsWith(`\0${VIRTUAL}/`)) {
+      server.moduleGraph.invalidateModule(mod)
+    }
+  }
+}
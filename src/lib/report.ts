@@ -0,0 +1,66 @@
+import type { TranslationReport } from "../types.js"
+import { compile, variables } from "./message.js"
+
+/**
+ * Compares the translations of every locale against the default locale,
+ * listing missing keys, extra keys and messages whose placeholders differ.
+ *
+ * @param translations - The flat translations keyed by locale code
+ * @param locale - The default locale code
+ * @returns The completeness report
+ */
+export function createReport(
+  translations: Record<string, Record<string, string>>,
+  locale: string,
+): TranslationReport {
+  const reference = translations[locale] ?? {}
+  const report: TranslationReport = { default: locale, locales: {} }
+
+  for (const [code, messages] of Object.entries(translations)) {
+    if (code === locale) continue
+
+    const missing = Object.keys(reference).filter((key) => !Object.hasOwn(messages, key))
+    const extra = Object.keys(messages).filter((key) => !Object.hasOwn(reference, key))
+    const placeholders = Object.keys(messages)
+      .filter((key) => Object.hasOwn(reference, key))
+      .map((key) => ({
+        key,
+        expected: variables(compile(reference[key])).sort(),
+        actual: variables(compile(messages[key])).sort(),
+      }))
+      .filter(({ expected, actual }) => expected.join() !== actual.join())
+
+    report.locales[code] = { missing, extra, placeholders }
+  }
+
+  return report
+}
+
+/**
+ * Describes every problem of a report as a readable message
+ *
+ * @param report - The completeness report
+ * @returns One message per problem
+ */
+export function describeReport(report: TranslationReport): string[] {
+  const braces = (names: string[]) => names.map((name) => `{${name}}`).join(", ") || "none"
+  const problems: string[] = []
+
+  for (const [code, { missing, extra, placeholders }] of Object.entries(report.locales)) {
+    if (missing.length) {
+      problems.push(`${code} is missing ${missing.length} key(s): ${missing.join(", ")}`)
+    }
+    if (extra.length) {
+      problems.push(
+        `${code} has ${extra.length} key(s) not in ${report.default}: ${extra.join(", ")}`,
+      )
+    }
+    for (const { key, expected, actual } of placeholders) {
+      problems.push(
+        `${code} "${key}" uses placeholders ${braces(actual)} but ${report.default} uses ${braces(expected)}`,
+      )
+    }
+  }
+
+  return problems
+}
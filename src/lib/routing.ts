@@ -0,0 +1,224 @@
+import type { Configuration, RoutingStrategy } from "../types"
+
+/**
+ * The query parameter holding the locale by default with the `query` strategy
+ */
+export const QUERY = "locale"
+
+/**
+ * Returns the configured routing strategy
+ *
+ * @param config - The i18n configuration
+ * @returns The strategy, `prefix` by default
+ */
+export function strategy(config: Configuration): RoutingStrategy {
+  return config.routing?.strategy ?? "prefix"
+}
+
+/**
+ * Returns whether the locale is a segment of the path with the strategy
+ *
+ * @param config - The i18n configuration
+ * @returns True for the `prefix` and `prefix-except-default` strategies
+ */
+export function isPrefixed(config: Configuration): boolean {
+  const name = strategy(config)
+  return name === "prefix" || name === "prefix-except-default"
+}
+
+/**
+ * Splits a path into its path name and the query string and hash after it
+ */
+function split(path: string): [string, string] {
+  const index = path.search(/[?#]/)
+  return index === -1 ? [path, ""] : [path.slice(0, index), path.slice(index)]
+}
+
+/**
+ * Replaces the segments of a path with their localized slugs
+ *
+ * @param path  - The canonical path, e.g. "/about/team?page=2"
+ * @param slugs - The localized slug of each canonical segment
+ * @returns The localized path, e.g. "/tietoa/tiimi?page=2"
+ */
+export function translatePath(path: string, slugs: Record<string, string>): string {
+  const [pathname, rest] = split(path)
+  const segments = pathname
+    .split("/")
+    .map((segment) => (Object.hasOwn(slugs, segment) ? slugs[segment] : segment))
+  return `${segments.join("/")}${rest}`
+}
+
+/**
+ * Replaces the localized slugs of a path with their canonical segments
+ *
+ * @param path  - The localized path, e.g. "/tietoa/tiimi"
+ * @param slugs - The localized slug of each canonical segment
+ * @returns The canonical path, e.g. "/about/team"
+ */
+export function untranslatePath(path: string, slugs: Record<string, string>): string {
+  const reverse = new Map(Object.entries(slugs).map(([segment, slug]) => [slug, segment]))
+  const [pathname, rest] = split(path)
+  const segments = pathname.split("/").map((segment) => {
+    // Slugs with non-ASCII characters are percent-encoded in URLs
+    let decoded = segment
+    try {
+      decoded = decodeURIComponent(segment)
+    } catch {
+      // Keep malformed segments as they are
+    }
+    return reverse.get(decoded) ?? segment
+  })
+  return `${segments.join("/")}${rest}`
+}
+
+/**
+ * Returns whether a URL is absolute, protocol-relative or only a query
+ * string or hash, none of which are localized
+ */
+function isExternal(url: string): boolean {
+  return /^([a-z][a-z\d+.-]*:|\/\/|[?#])/i.test(url)
+}
+
+/**
+ * Returns the base path of the project without its trailing slash
+ */
+function base(config: Configuration): string {
+  return (config.urls?.base ?? "/").replace(/\/+$/, "").replace(/^(?!\/|$)/, "/")
+}
+
+/**
+ * Removes the base path of the project from a path
+ *
+ * @param config   - The i18n configuration
+ * @param pathname - The path, e.g. "/docs/fi/about"
+ * @returns The path without the base, e.g. "/fi/about"
+ */
+export function stripBase(config: Configuration, pathname: string): string {
+  const prefix = base(config)
+  if (prefix && (pathname === prefix || pathname.startsWith(`${prefix}/`))) {
+    return pathname.slice(prefix.length) || "/"
+  }
+  return pathname
+}
+
+/**
+ * Adds the base path and applies the trailing slash setting of the project
+ */
+function finish(config: Configuration, pathname: string): string {
+  pathname = `${base(config)}${pathname}`
+
+  const trailingSlash = config.urls?.trailingSlash ?? "ignore"
+  if (trailingSlash === "always" && !pathname.endsWith("/") && !/\.\w+$/.test(pathname)) {
+    return `${pathname}/`
+  }
+  if (trailingSlash === "never" && pathname.length > 1 && pathname.endsWith("/")) {
+    return pathname.slice(0, -1)
+  }
+  return pathname
+}
+
+/**
+ * Builds the URL of a path in a locale following the routing strategy and
+ * the base path and trailing slash setting of the project. The path may
+ * include a query string and a hash. Absolute and external URLs are
+ * returned as they are, and paths only get the base path and trailing
+ * slash when i18n is disabled.
+ *
+ * @param config   - The i18n configuration
+ * @param pathname - The canonical path without a locale, e.g. "/about?page=2"
+ * @param code     - The locale code
+ * @param slugs    - The localized slug of each canonical segment
+ * @returns The localized URL, absolute with the `domains` strategy
+ */
+export function localize(
+  config: Configuration,
+  pathname: string,
+  code: string,
+  slugs: Record<string, string> = {},
+): string {
+  if (isExternal(pathname)) return pathname
+  if (!pathname.startsWith("/")) pathname = `/${pathname}`
+  if (!config.enabled) {
+    const [path, rest] = split(pathname)
+    return `${finish(config, path)}${rest}`
+  }
+
+  const [path, rest] = split(translatePath(pathname, slugs))
+  const hash = rest.includes("#") ? rest.slice(rest.indexOf("#")) : ""
+  const search = rest.slice(0, rest.length - hash.length)
+
+  switch (strategy(config)) {
+    case "prefix-except-default":
+      return code === config.default
+        ? `${finish(config, path)}${rest}`
+        : `${finish(config, `/${code}${path}`)}${rest}`
+    case "domains": {
+      const domains = config.routing?.domains ?? {}
+      const origin = Object.hasOwn(domains, code) ? domains[code].replace(/\/$/, "") : ""
+      return `${origin}${finish(config, path)}${rest}`
+    }
+    case "query": {
+      const params = new URLSearchParams(search)
+      params.set(config.routing?.query ?? QUERY, code)
+      return `${finish(config, path)}?${params}${hash}`
+    }
+    default:
+      return `${finish(config, `/${code}${path}`)}${rest}`
+  }
+}
+
+/**
+ * Returns the locale a URL points to following the routing strategy
+ *
+ * @param config - The i18n configuration
+ * @param url    - The URL, or a path for the prefix and query strategies
+ * @returns The locale code, or undefined if the URL does not name a locale
+ *          or i18n is disabled
+ */
+export function localeOf(config: Configuration, url: URL | string): string | undefined {
+  if (!config.enabled) return undefined
+
+  const parsed = new URL(url, "http://localhost")
+  const { searchParams, host } = parsed
+  const pathname = stripBase(config, parsed.pathname)
+  const supported = (code: string | null | undefined) =>
+    code && config.locales.some((l) => l.code === code) ? code : undefined
+
+  switch (strategy(config)) {
+    case "domains":
+      return Object.entries(config.routing?.domains ?? {}).find(
+        ([, domain]) => new URL(domain).host === host,
+      )?.[0]
+    case "query":
+      return supported(searchParams.get(config.routing?.query ?? QUERY))
+    case "prefix-except-default":
+      return supported(pathname.split("/")[1]) ?? config.default
+    default:
+      return supported(pathname.split("/")[1])
+  }
+}
+
+/**
+ * Removes the locale from a URL following the routing strategy
+ *
+ * @param config - The i18n configuration
+ * @param url    - The URL, or a path for the prefix and query strategies
+ * @returns The locale the URL names, if any, and the path without it
+ */
+export function delocalize(
+  config: Configuration,
+  url: URL | string,
+): { locale: string | undefined; path: string } {
+  const parsed = new URL(url, "http://localhost")
+  const locale = localeOf(config, parsed)
+  parsed.pathname = stripBase(config, parsed.pathname)
+
+  if (config.enabled && strategy(config) === "query") {
+    parsed.searchParams.delete(config.routing?.query ?? QUERY)
+  } else if (isPrefixed(config) && locale && parsed.pathname.split("/")[1] === locale) {
+    parsed.pathname = parsed.pathname.slice(locale.length + 1) || "/"
+  }
+
+  return { locale, path: `${parsed.pathname}${parsed.search}${parsed.hash}` }
+}
@@ -0,0 +1,277 @@
+import fs from "node:fs"
+import path from "node:path"
+
+import type { ViteDevServer } from "vite"
+import type { Configuration, TranslationFormat } from "../types.js"
+import { createLoader, FORMATS, type Source } from "./formats.js"
+import { check, compile } from "./message.js"
+
+/**
+ * Returns where a key is defined, with its line when the format knows it
+ */
+function where(source: Source, file: string, key: string): string {
+  const line = source.lines?.get(key)
+  return line ? `${file}:${line}` : file
+}
+
+/**
+ * Flattens the content of a translation file into dot-path keys,
+ * failing when a key is defined twice, is both a string and a group
+ * or has a `__proto__` segment, which objects cannot hold as a key.
+ */
+function flatten(source: Source, file: string): Record<string, string> {
+  const { data } = source
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`Translation file ${file} must have an object as its default export`)
+  }
+
+  const flat: Record<string, string> = {}
+  const visit = (object: object, prefix: string) => {
+    for (const [segment, value] of Object.entries(object)) {
+      const key = prefix ? `${prefix}.${segment}` : segment
+      if (key.split(".").includes("__proto__")) {
+        throw new Error(
+          `Translation "${key}" in ${where(source, file, key)} must not contain "__proto__"`,
+        )
+      }
+      if (typeof value === "string") {
+        if (Object.hasOwn(flat, key)) {
+          throw new Error(
+            `Translation "${key}" in ${where(source, file, key)} is defined more than once`,
+          )
+        }
+        flat[key] = value
+      } else if (value && typeof value === "object" && !Array.isArray(value)) {
+        visit(value, key)
+      } else {
+        throw new Error(
+          `Translation "${key}" in ${where(source, file, key)} must be a string or an object, got ${typeof value}`,
+        )
+      }
+    }
+  }
+  visit(data, "")
+
+  for (const key of Object.keys(flat)) {
+    const segments = key.split(".")
+    for (let i = 1; i < segments.length; i++) {
+      const branch = segments.slice(0, i).join(".")
+      if (Object.hasOwn(flat, branch)) {
+        throw new Error(
+          `Translation "${branch}" in ${where(source, file, branch)} is both a string and a group containing "${key}"`,
+        )
+      }
+    }
+  }
+
+  return flat
+}
+
+/**
+ * Parses every message as ICU MessageFormat so that invalid syntax fails
+ * the build, caching the result for the runtime.
+ */
+function parse(
+  flat: Record<string, string>,
+  source: Source,
+  file: string,
+  config: Configuration,
+  code: string,
+): void {
+  const currency = config.locales.find((l) => l.code === code)?.formats?.currency
+  for (const [key, text] of Object.entries(flat)) {
+    try {
+      check(compile(text), config.translations?.formats, currency)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      throw new Error(`Invalid message "${key}" in ${where(source, file, key)}: ${message}`)
+    }
+  }
+}
+
+/**
+ * A translation file of a locale, holding one namespace when it lives in
+ * the directory of the locale
+ */
+interface TranslationFile {
+  file: string
+  format: TranslationFormat
+  namespace?: string
+}
+
+/**
+ * Finds the translation files of a locale: the `<code>` file of the configured
+ * format (or of the first format that has one) and every file in the `<code>/`
+ * directory, each of which is a namespace.
+ */
+function discover(
+  directory: string,
+  code: string,
+  format: TranslationFormat | undefined,
+): TranslationFile[] {
+  const formats = format ? [format] : (Object.keys(FORMATS) as TranslationFormat[])
+  const extensions = formats.flatMap((name) =>
+    FORMATS[name].extensions.map((ext) => ({ ext, format: name })),
+  )
+
+  const files: TranslationFile[] = []
+  const found = extensions.find(({ ext }) => fs.existsSync(path.join(directory, `${code}${ext}`)))
+  if (found) {
+    files.push({ file: path.join(directory, `${code}${found.ext}`), format: found.format })
+  }
+
+  const folder = path.join(directory, code)
+  if (fs.existsSync(folder) && fs.statSync(folder).isDirectory()) {
+    const namespaces = new Map<string, string>()
+    for (const name of fs.readdirSync(folder).sort()) {
+      const match = extensions.find(({ ext }) => name.endsWith(ext))
+      if (!match) continue
+
+      const file = path.join(folder, name)
+      const namespace = name.slice(0, -match.ext.length)
+      const existing = namespaces.get(namespace)
+      if (existing) {
+        throw new Error(`Namespace "${namespace}" is defined by both ${existing} and ${file}`)
+      }
+      namespaces.set(namespace, file)
+      files.push({ file, format: match.format, namespace })
+    }
+  }
+
+  if (!files.length) {
+    const names = extensions.map(({ ext }) => `${code}${ext}`)
+    const tried = `${names.slice(0, -1).join(", ")}${names.length > 1 ? " and " : ""}${names.at(-1)}`
+    throw new Error(
+      `Translation file not found for locale "${code}" (tried ${tried}, or a ${code}/ directory)`,
+    )
+  }
+  return files
+}
+
+/**
+ * Merges the flat translations of one file into those of its locale, failing
+ * when a key is defined in two files or is a string in one and a group in another
+ */
+function merge(
+  target: Record<string, string>,
+  origins: Map<string, string>,
+  flat: Record<string, string>,
+  file: string,
+): void {
+  for (const [key, value] of Object.entries(flat)) {
+    const existing = origins.get(key)
+    if (existing) {
+      throw new Error(`Translation "${key}" is defined in both ${existing} and ${file}`)
+    }
+
+    const segments = key.split(".")
+    for (let i = 1; i < segments.length; i++) {
+      const branch = segments.slice(0, i).join(".")
+      if (origins.has(branch)) {
+        throw new Error(
+          `Translation "${branch}" in ${origins.get(branch)} is both a string and a group containing "${key}" in ${file}`,
+        )
+      }
+    }
+    const group = [...origins.keys()].find((other) => other.startsWith(`${key}.`))
+    if (group) {
+      throw new Error(
+        `Translation "${key}" in ${file} is both a string and a group containing "${group}" in ${origins.get(group)}`,
+      )
+    }
+
+    target[key] = value
+    origins.set(key, file)
+  }
+}
+
+/**
+ * Loads the translation files of every configured locale, flattens
+ * nested groups into dot-path keys, prefixes the keys of namespace files
+ * with their namespace and parses every message.
+ *
+ * @param config - The i18n configuration
+ * @param root   - The project root, defaults to the current working directory
+ * @param loader - A running Vite server to load translation modules with,
+ *                 instead of a throwaway one
+ * @returns The translations keyed by locale code
+ */
+export async function loadTranslations(
+  config: Configuration,
+  root: string = process.cwd(),
+  loader?: ViteDevServer,
+): Promise<Record<string, Record<string, string>>> {
+  const translations: Record<string, Record<string, string>> = {}
+
+  if (!config.translations?.enabled || !config.translations.path) {
+    return translations
+  }
+
+  const directory = path.resolve(root, config.translations.path)
+  const separator = config.translations.separator ?? "."
+  const locales = config.locales.map((locale) => ({
+    code: locale.code,
+    files: discover(directory, locale.code, config.translations?.format),
+  }))
+
+  // The Vite server is only started when a locale uses translation modules
+  let server: Promise<ViteDevServer> | undefined
+  const context = {
+    server: () => {
+      if (loader) return Promise.resolve(loader)
+      server ??= createLoader(root)
+      return server
+    },
+  }
+
+  try {
+    for (const { code, files } of locales) {
+      const origins = new Map<string, string>()
+      translations[code] = {}
+
+      for (const { file, format, namespace } of files) {
+        const source = await FORMATS[format].load(file, context)
+        const flat = flatten(source, file)
+        parse(flat, source, file, config, code)
+
+        const prefixed = namespace
+          ? Object.fromEntries(
+              Object.entries(flat).map(([key, value]) => [`${namespace}${separator}${key}`, value]),
+            )
+          : flat
+        merge(translations[code], origins, prefixed, file)
+      }
+    }
+  } finally {
+    await (await server)?.close()
+  }
+
+  return translations
+}
+
+/**
+ * Lists the namespaces of every configured locale
+ *
+ * @param config - The i18n configuration
+ * @param root   - The project root, defaults to the current working directory
+ * @returns The namespace names keyed by locale code
+ */
+export function listNamespaces(
+  config: Configuration,
+  root: string = process.cwd(),
+): Record<string, string[]> {
+  const namespaces: Record<string, string[]> = {}
+
+  if (!config.translations?.enabled || !config.translations.path) {
+    return namespaces
+  }
+
+  const directory = path.resolve(root, config.translations.path)
+  for (const locale of config.locales) {
+    namespaces[locale.code] = discover(directory, locale.code, config.translations.format)
+      .map(({ namespace }) => namespace)
+      .filter((namespace): namespace is string => !!namespace)
+  }
+
+  return namespaces
+}
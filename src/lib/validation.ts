@@ -0,0 +1,330 @@
+import fs from "node:fs"
+import path from "node:path"
+import type { Configuration, Locales, Routing, RoutingStrategy, Translations } from "../types.js"
+
+/**
+ * Checks a value of the configuration, adding a problem for each way
+ * it does not match
+ */
+type Rule = (value: unknown, at: string, problems: string[]) => void
+
+/**
+ * Returns the path of a key or an index of an array under a path
+ */
+function join(at: string, key: string | number): string {
+  if (typeof key === "number") return `${at}[${key}]`
+  return at ? `${at}.${key}` : key
+}
+
+/**
+ * Lists the choices of a value, e.g. `"a", "b" or "c"`
+ */
+function list(choices: unknown[]): string {
+  const quoted = choices.map((choice) => JSON.stringify(choice))
+  return quoted.length > 1 ? `${quoted.slice(0, -1).join(", ")} or ${quoted.at(-1)}` : quoted[0]
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+const string: Rule = (value, at, problems) => {
+  if (typeof value !== "string") problems.push(`"${at}" must be a string`)
+}
+
+const boolean: Rule = (value, at, problems) => {
+  if (typeof value !== "boolean") problems.push(`"${at}" must be true or false`)
+}
+
+// Options passed to Intl as they are
+const options: Rule = (value, at, problems) => {
+  if (!isObject(value)) problems.push(`"${at}" must be an object`)
+}
+
+const oneOf =
+  (...choices: unknown[]): Rule =>
+  (value, at, problems) => {
+    if (!choices.includes(value)) problems.push(`"${at}" must be ${list(choices)}`)
+  }
+
+const either =
+  (description: string, ...rules: Rule[]): Rule =>
+  (value, at, problems) => {
+    if (!rules.some((rule) => check(rule, value, at).length === 0)) {
+      problems.push(`"${at}" must be ${description}`)
+    }
+  }
+
+const array =
+  (item: Rule, nonEmpty = false): Rule =>
+  (value, at, problems) => {
+    if (!Array.isArray(value) || (nonEmpty && value.length === 0)) {
+      problems.push(`"${at}" must be a ${nonEmpty ? "non-empty " : ""}array`)
+      return
+    }
+    value.forEach((entry, index) => {
+      item(entry, join(at, index), problems)
+    })
+  }
+
+const record =
+  (item: Rule): Rule =>
+  (value, at, problems) => {
+    if (!isObject(value)) {
+      problems.push(`"${at}" must be an object`)
+      return
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      item(entry, join(at, key), problems)
+    }
+  }
+
+const object =
+  (shape: Record<string, Rule>): Rule =>
+  (value, at, problems) => {
+    if (!isObject(value)) {
+      problems.push(at ? `"${at}" must be an object` : "The configuration must be an object")
+      return
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      const rule = shape[key]
+      if (!rule) {
+        problems.push(`"${join(at, key)}" is not a known option`)
+      } else if (entry !== undefined) {
+        rule(entry, join(at, key), problems)
+      }
+    }
+  }
+
+/**
+ * Runs a rule and returns its problems
+ */
+function check(rule: Rule, value: unknown, at: string): string[] {
+  const problems: string[] = []
+  rule(value, at, problems)
+  return problems
+}
+
+const formats = {
+  number: record(options),
+  date: record(options),
+  time: record(options),
+}
+
+const locale = object({
+  code: string,
+  name: string,
+  endonym: string,
+  dir: oneOf("ltr", "rtl"),
+  region: string,
+  script: string,
+  hreflang: string,
+  fallback: array(string),
+  formats: object({
+    ...formats,
+    currency: string,
+    relative: record(options),
+    list: record(options),
+  }),
+})
+
+/**
+ * The shape of the configuration
+ */
+const schema = object({
+  enabled: boolean,
+  default: string,
+  locales: array(locale, true),
+  translations: object({
+    enabled: boolean,
+    path: string,
+    format: oneOf("module", "json", "yaml", "po"),
+    separator: oneOf(".", ":"),
+    fallback: record(array(string)),
+    formats: object(formats),
+    strict: boolean,
+    report: string,
+  }),
+  routing: object({
+    strategy: oneOf("prefix", "prefix-except-default", "domains", "query"),
+    domains: record(string),
+    query: string,
+    slugs: either("a namespace or localized slugs by locale", string, record(record(string))),
+  }),
+  urls: object({
+    site: string,
+    base: string,
+    trailingSlash: oneOf("always", "never", "ignore"),
+  }),
+  client: oneOf(true, false, "auto"),
+  detection: object({
+    cookie: either("a cookie name or false", string, oneOf(false)),
+    acceptLanguage: boolean,
+    unprefixed: oneOf("redirect", "rewrite", "ignore"),
+    exclude: array(string),
+  }),
+})
+
+/**
+ * Returns whether a tag is a valid BCP 47 language tag
+ */
+function isLanguageTag(tag: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(tag).length === 1
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Checks the parts of the configuration that depend on each other,
+ * once their types are known to be right
+ */
+function relations(config: Configuration, root: string | undefined, problems: string[]): void {
+  if (config.enabled === undefined) {
+    problems.push('"enabled" is required')
+  }
+  if (!config.default) {
+    problems.push('"default" is required when enabled is true')
+  }
+  if (config.locales === undefined) {
+    problems.push('"locales" must be a non-empty array')
+  }
+
+  const locales = Array.isArray(config.locales) ? config.locales : []
+  const codes = new Map<string, number>()
+  locales.forEach((l, index) => {
+    if (isObject(l) && l.code === undefined) {
+      problems.push(`"locales[${index}].code" is required`)
+    }
+    if (!isObject(l) || typeof l.code !== "string") return
+
+    if (!isLanguageTag(l.code)) {
+      problems.push(`"${l.code}" in "locales" is not a valid BCP 47 language tag`)
+    }
+    if (typeof l.hreflang === "string" && !isLanguageTag(l.hreflang)) {
+      problems.push(`"${l.hreflang}" in "locales" is not a valid BCP 47 language tag`)
+    }
+    const first = codes.get(l.code)
+    if (first !== undefined) {
+      problems.push(`"locales[${index}].code" repeats "${l.code}" of "locales[${first}]"`)
+    } else {
+      codes.set(l.code, index)
+    }
+  })
+
+  if (locales.length > 0 && typeof config.default === "string" && !codes.has(config.default)) {
+    problems.push('"default" must be one of the supported locale codes')
+  }
+
+  const translations = isObject(config.translations) ? config.translations : undefined
+  if (translations?.enabled && !translations.path) {
+    problems.push('"translations.path" is required when translations.enabled is true')
+  } else if (
+    translations?.enabled &&
+    root &&
+    typeof translations.path === "string" &&
+    !fs.existsSync(path.resolve(root, translations.path))
+  ) {
+    problems.push(`"translations.path" points to "${translations.path}", which does not exist`)
+  }
+
+  const routing: Routing = isObject(config.routing) ? config.routing : {}
+  if (routing.strategy === "domains") {
+    for (const code of codes.keys()) {
+      const domain = isObject(routing.domains) ? routing.domains[code] : undefined
+      if (typeof domain !== "string" || !URL.canParse(domain)) {
+        problems.push(`"routing.domains" must have a URL such as "https://example.com" for ${code}`)
+      }
+    }
+  }
+
+  if (isObject(routing.slugs)) {
+    for (const [code, segments] of Object.entries(routing.slugs)) {
+      if (codes.size > 0 && !codes.has(code)) {
+        problems.push(`"routing.slugs.${code}" is not one of the supported locale codes`)
+      }
+      if (!isObject(segments)) continue
+
+      const seen = new Map<string, string>()
+      for (const [segment, slug] of Object.entries(segments)) {
+        if (typeof slug !== "string") continue
+        if (!slug || slug.includes("/")) {
+          problems.push(`"routing.slugs.${code}.${segment}" must be a single path segment`)
+          continue
+        }
+        const existing = seen.get(slug)
+        if (existing) {
+          problems.push(
+            `"routing.slugs.${code}" uses "${slug}" for both "${existing}" and "${segment}"`,
+          )
+        }
+        seen.set(slug, segment)
+      }
+    }
+  }
+}
+
+/**
+ * Validates the configuration against its schema and the relations between
+ * its parts, reporting every problem at once. A disabled configuration is
+ * not validated.
+ *
+ * @param config - The i18n configuration
+ * @param root   - The root directory of the project, to check that the
+ *                 translations directory exists
+ * @throws If the configuration has problems, listing each with its path
+ */
+export function validate(config: Configuration, root?: string): void {
+  if (isObject(config) && config.enabled === false) {
+    return
+  }
+
+  const problems = check(schema, config, "")
+  if (isObject(config)) {
+    relations(config, root, problems)
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid i18n configuration:\n${[...new Set(problems)].map((p) => `- ${p}`).join("\n")}`,
+    )
+  }
+}
+
+/**
+ * A configuration whose default locale, translation fallbacks, domains and
+ * slugs use its own locale codes, with a domain for every locale with the
+ * `domains` strategy
+ */
+export interface CheckedConfiguration<Code extends string>
+  extends Omit<Configuration, "default" | "locales" | "translations" | "routing"> {
+  default: NoInfer<Code>
+  locales: (Locales & { code: Code })[]
+  translations?: Omit<Translations, "fallback"> & {
+    fallback?: Partial<Record<NoInfer<Code>, string[]>>
+  }
+  routing?: Omit<Routing, "strategy" | "domains" | "slugs"> & {
+    slugs?: Partial<Record<NoInfer<Code>, Record<string, string>>> | string
+  } & (
+      | { strategy: "domains"; domains: Record<NoInfer<Code>, string> }
+      | {
+          strategy?: Exclude<RoutingStrategy, "domains">
+          domains?: Partial<Record<NoInfer<Code>, string>>
+        }
+    )
+}
+
+/**
+ * Returns the configuration as it is, checking at type level what the
+ * integration validates when it is set up, e.g. that the default locale
+ * is one of the locale codes
+ *
+ * @param config - The i18n configuration
+ * @returns The same configuration
+ */
+export function defineI18nConfig<const Code extends string>(
+  config: CheckedConfiguration<Code>,
+): CheckedConfiguration<Code> {
+  return config
+}
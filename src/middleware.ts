@@ -0,0 +1,154 @@
+import { AsyncLocalStorage } from "node:async_hooks"
+
+import type { MiddlewareHandler } from "astro"
+import { config, Locale } from "./lib/locale.js"
+import { negotiate, parseAcceptLanguage } from "./lib/negotiation.js"
+import { delocalize, isPrefixed, localeOf, localize } from "./lib/routing.js"
+
+declare global {
+  namespace App {
+    interface Locals {
+      locale: string
+    }
+  }
+}
+
+// The locals of the request being rendered, read by the Locale API through
+// a global so that it never imports Node modules in the browser
+const storage = new AsyncLocalStorage<App.Locals>()
+globalThis.__ASTRO_I18N_SCOPE__ = storage
+
+/**
+ * The name of the cookie holding the preferred locale by default,
+ * the same key the browser uses for localStorage
+ */
+export const COOKIE = "astro-i18n-locale"
+
+/**
+ * Where the locale of a request is looked for besides its path
+ */
+export interface LocaleHints {
+  cookie?: string
+  acceptLanguage?: string | null
+}
+
+/**
+ * Resolves the locale of a request from its URL following the routing
+ * strategy, then the locale cookie, then the `Accept-Language` header,
+ * falling back to the default locale
+ *
+ * @param url   - The URL of the request, or its path
+ * @param hints - The cookie and header values of the request
+ * @returns The locale code
+ */
+export function resolveLocale(url: URL | string, hints: LocaleHints = {}): string {
+  const cfg = config()
+  const supported = cfg.locales.map((l) => l.code)
+
+  return (
+    localeOf(cfg, url) ??
+    (hints.cookie && supported.includes(hints.cookie) ? hints.cookie : undefined) ??
+    negotiate(parseAcceptLanguage(hints.acceptLanguage), supported) ??
+    cfg.default
+  )
+}
+
+/**
+ * Paths under which endpoints live by default, never redirected to a locale
+ */
+const EXCLUDE = ["/api"]
+
+/**
+ * Returns whether a path may be a page: Astro's own routes under `/_`,
+ * such as `/_image` and `/_server-islands`, and excluded paths are not
+ */
+function isPage(path: string, exclude: string[]): boolean {
+  return (
+    !path.startsWith("/_") &&
+    !exclude.some((prefix) => {
+      const base = prefix.replace(/\/+$/, "")
+      return path === base || path.startsWith(`${base}/`)
+    })
+  )
+}
+
+/**
+ * Changes the headers of a response, copying the response first when its
+ * headers are immutable, like those of `Response.redirect()` and `fetch()`
+ */
+function withHeaders(response: Response, change: (headers: Headers) => void): Response {
+  try {
+    change(response.headers)
+    return response
+  } catch {
+    const copy = new Response(response.body, response)
+    change(copy.headers)
+    return copy
+  }
+}
+
+/**
+ * Stores the locale of each request in `Astro.locals.locale` and renders
+ * the request in its own scope, so that `Locale.current` and everything
+ * using it follow the request even when several are rendered at once.
+ *
+ * Page requests rendered on demand whose URL names no locale are detected
+ * from the cookie and `Accept-Language` header and redirected, or rewritten,
+ * to the localized URL. Astro's routes under `/_` and the paths excluded
+ * with `detection.exclude` are left alone. Paths with localized slugs are rewritten to the
+ * page of their canonical route. With i18n disabled, every request is
+ * rendered as it is in the default locale.
+ */
+export const onRequest: MiddlewareHandler = async (context, next) => {
+  const cfg = config()
+  if (!cfg.enabled) {
+    context.locals.locale = cfg.default
+    return withHeaders(await next(), (headers) => headers.set("Content-Language", cfg.default))
+  }
+
+  const detection = cfg.detection ?? {}
+  const cookie = detection.cookie ?? COOKIE
+  const { path } = delocalize(cfg, context.url)
+  const detect =
+    !context.isPrerendered &&
+    !localeOf(cfg, context.url) &&
+    isPage(path, detection.exclude ?? EXCLUDE)
+
+  const locale = detect
+    ? resolveLocale(context.url, {
+        cookie: cookie ? context.cookies.get(cookie)?.value : undefined,
+        acceptLanguage:
+          detection.acceptLanguage === false
+            ? null
+            : context.request.headers.get("Accept-Language"),
+      })
+    : resolveLocale(context.url)
+  context.locals.locale = locale
+
+  const unprefixed = detection.unprefixed ?? "redirect"
+
+  let response: Response
+  if (detect && unprefixed === "redirect") {
+    response = context.redirect(Locale.url(path, locale), 302)
+  } else if (detect && unprefixed === "rewrite") {
+    // Only prefixed routes live at another path, the others render as they are
+    const route = localize(cfg, path, locale)
+    response = await storage.run(context.locals, () => (isPrefixed(cfg) ? next(route) : next()))
+  } else {
+    // Localized slugs are rendered by the page of their canonical route
+    const canonical = Locale.canonical(context.url, locale)
+    response = await storage.run(context.locals, () =>
+      canonical !== path ? next(localize(cfg, canonical, locale)) : next(),
+    )
+  }
+
+  return withHeaders(response, (headers) => {
+    headers.set("Content-Language", locale)
+    if (detect) {
+      const vary = [cookie && "Cookie", detection.acceptLanguage !== false && "Accept-Language"]
+      for (const header of vary) {
+        if (header) headers.append("Vary", header)
+      }
+    }
+  })
+}
@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from "react"
+import { Locale } from "./lib/locale.js"
+
+const current = () => Locale.current
+
+/**
+ * Returns the current locale and re-renders the component whenever it
+ * changes, with `Locale.set` or in another browser tab
+ *
+ * @returns The current locale code
+ */
+export function useLocale(): string {
+  return useSyncExternalStore(Locale.onChange, current, current)
+}
@@ -0,0 +1,8 @@
+import { Locale } from "./lib/locale.js"
+
+/**
+ * A readable store of the current locale, e.g. `{$locale}` in a component
+ */
+export const locale: { subscribe(run: (locale: string) => void): () => void } = {
+  subscribe: Locale.subscribe,
+}
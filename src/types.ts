@@ -1,11 +1,28 @@
 /**
- * Locale configuration
+ * Locale configuration. The name, endonym and text direction are derived
+ * from the code with `Intl` when they are omitted.
  */
 export interface Locales {
   code: string
+  name?: string
+  endonym?: string
+  dir?: "ltr" | "rtl"
+  region?: string
+  script?: string
+  hreflang?: string
+  fallback?: string[]
+  formats?: LocaleFormats
+}
+
+/**
+ * A locale with the metadata derived from its code filled in,
+ * as returned by `Locale.info`
+ */
+export interface LocaleInfo extends Locales {
   name: string
   endonym: string
   dir: "ltr" | "rtl"
+  hreflang: string
 }
 
 /**
@@ -14,8 +31,239 @@ export interface Locales {
 export interface Translations {
   enabled?: boolean
   path?: string
+  format?: TranslationFormat
+  separator?: "." | ":"
+  fallback?: Record<string, string[]>
+  formats?: Formats
+  strict?: boolean
+  report?: string
+}
+
+/**
+ * Differences between the translations of a locale and the default locale
+ */
+export interface LocaleReport {
+  missing: string[]
+  extra: string[]
+  placeholders: { key: string; expected: string[]; actual: string[] }[]
 }
 
+/**
+ * Completeness of every locale compared to the default locale
+ */
+export interface TranslationReport {
+  default: string
+  locales: Record<string, LocaleReport>
+}
+
+/**
+ * Translation file formats: TypeScript/JavaScript modules, JSON, YAML and gettext PO
+ */
+export type TranslationFormat = "module" | "json" | "yaml" | "po"
+
+/**
+ * Named number, date and time styles usable in ICU messages,
+ * e.g. `{amount, number, currency}`
+ */
+export interface Formats {
+  number?: Record<string, Intl.NumberFormatOptions>
+  date?: Record<string, Intl.DateTimeFormatOptions>
+  time?: Record<string, Intl.DateTimeFormatOptions>
+}
+
+/**
+ * Formatting presets of a locale for `Locale.format`, taking precedence over
+ * `translations.formats`. A preset named `default` applies when no options
+ * are given.
+ */
+export interface LocaleFormats extends Formats {
+  currency?: string
+  relative?: Record<string, Intl.RelativeTimeFormatOptions>
+  list?: Record<string, Intl.ListFormatOptions>
+}
+
+/**
+ * A translation lookup that was not served by the requested locale
+ */
+export interface Fallback {
+  key: string
+  locale: string
+  resolved?: string
+}
+
+/**
+ * Translations grouped into nested objects, the dot-path keys
+ * of the flat translations split into their segments
+ */
+export interface NestedTranslations {
+  [key: string]: string | NestedTranslations
+}
+
+/**
+ * Values that can be interpolated into a message
+ */
+export type Values = Record<string, string | number | Date>
+
+/**
+ * Registry filled in by the types generated from the translations of the
+ * default locale, mapping every key to the variables its message expects
+ */
+// biome-ignore lint/suspicious/noEmptyInterface: Augmented by the generated types
+export interface Register {}
+
+/**
+ * The variables of every translation key, or any key when no types are generated
+ */
+export type Messages = Register extends { messages: infer M extends Record<string, object> }
+  ? M
+  : Record<string, Values>
+
+/**
+ * A translation key of the default locale
+ */
+export type TranslationKey = keyof Messages & string
+
+declare const variables: unique symbol
+
+/**
+ * A translated message that carries the variables it expects
+ */
+export type TranslatedMessage<V = Values> = string & { readonly [variables]: V }
+
+/**
+ * The variables of a message, or any values for plain text
+ */
+export type MessageVariables<T extends string> = T extends TranslatedMessage<infer V> ? V : Values
+
+/**
+ * The flat translations of a locale, typed by the keys of the default locale
+ */
+export type Dictionary = { readonly [K in TranslationKey]: TranslatedMessage<Messages[K]> }
+
+/**
+ * The flat translations of one namespace, keyed without the namespace prefix
+ */
+export type NamespaceDictionary<N extends string> = string extends TranslationKey
+  ? Dictionary
+  : {
+      readonly [K in TranslationKey as K extends `${N}${"." | ":"}${infer R}`
+        ? R
+        : never]: TranslatedMessage<Messages[K]>
+    }
+
+/**
+ * Options of `Locale.translations`
+ */
+export interface TranslationsOptions {
+  nested?: boolean
+}
+
+/**
+ * The variables and locale arguments of `Locale.t`, where the variables
+ * are optional only for messages that have none
+ */
+export type TranslateArguments<K extends TranslationKey> = Record<never, never> extends Messages[K]
+  ? [vars?: Messages[K], locale?: string]
+  : [vars: Messages[K], locale?: string]
+
+/**
+ * The signature of `Locale.t`. It is named so that the published declarations
+ * keep the variables of each key instead of those of the empty registry.
+ */
+export type Translate = <K extends TranslationKey>(key: K, ...args: TranslateArguments<K>) => string
+
+/**
+ * How the locale is part of a URL: always as the first path segment, as the
+ * first segment except for the default locale, by domain or by query parameter
+ */
+export type RoutingStrategy = "prefix" | "prefix-except-default" | "domains" | "query"
+
+/**
+ * URL routing configuration
+ */
+export interface Routing {
+  strategy?: RoutingStrategy
+  domains?: Record<string, string>
+  query?: string
+  slugs?: Slugs
+}
+
+/**
+ * Localized path segments, either keyed by locale code and canonical segment,
+ * e.g. `{ fi: { about: "tietoa" } }`, or the name of the translation namespace
+ * or group holding them
+ */
+export type Slugs = Record<string, Record<string, string>> | string
+
+/**
+ * A page returned by the generator of `Locale.staticPaths`
+ */
+export interface StaticPathEntry<P extends Record<string, unknown> = Record<string, unknown>> {
+  params?: Record<string, string | number | undefined>
+  props?: P
+}
+
+/**
+ * A page returned by `Locale.staticPaths`, with the locale in its params
+ * and props
+ */
+export interface StaticPath<P extends Record<string, unknown> = Record<string, unknown>> {
+  params: Record<string, string | number | undefined>
+  props: P & { locale: string }
+}
+
+/**
+ * The alternate URLs and language of a page, as returned by `Locale.alternates`
+ */
+export interface Alternates {
+  /** Value of the `lang` attribute of the page */
+  lang: string
+  /** Value of the `dir` attribute of the page */
+  dir: "ltr" | "rtl"
+  /** URL of the page in its own locale */
+  canonical: string
+  /** URL of the page in every locale, followed by `x-default` */
+  links: { hreflang: string; href: string }[]
+  /** Values of the `og:locale` and `og:locale:alternate` properties */
+  og: { locale: string; alternates: string[] }
+}
+
+/**
+ * Options of `Locale.staticPaths`
+ */
+export interface StaticPathsOptions {
+  /** Name of the route parameter holding the locale, defaults to "locale" */
+  param?: string
+  /** Locales to leave out */
+  exclude?: string[]
+}
+
+/**
+ * URL settings of the Astro project, filled in by the integration
+ * from its `site`, `base` and `trailingSlash` options
+ */
+export interface Urls {
+  site?: string
+  base?: string
+  trailingSlash?: "always" | "never" | "ignore"
+}
+
+/**
+ * Locale detection for pages rendered on demand
+ */
+export interface Detection {
+  cookie?: string | false
+  acceptLanguage?: boolean
+  unprefixed?: "redirect" | "rewrite" | "ignore"
+  exclude?: string[]
+}
+
+/**
+ * When the browser receives the configuration and translation loaders:
+ * always, never, or only for pages whose client scripts use the `Locale` API
+ */
+export type ClientDelivery = boolean | "auto"
+
 /**
  * Internationalization configuration
  */
@@ -24,4 +272,8 @@ export interface Configuration {
   default: string
   locales: Locales[]
   translations?: Translations
+  routing?: Routing
+  urls?: Urls
+  client?: ClientDelivery
+  detection?: Detection
 }
@@ -0,0 +1,22 @@
+import { onScopeDispose, type Ref, readonly, ref } from "vue"
+import { Locale } from "./lib/locale.js"
+
+/**
+ * Returns the current locale as a ref that follows every change, with
+ * `Locale.set` or in another browser tab, until the component is unmounted
+ *
+ * @returns A read-only ref of the current locale code
+ */
+export function useLocale(): Readonly<Ref<string>> {
+  const locale = ref(Locale.current)
+
+  // The locale only changes in the browser, rendering on the server adds no listener
+  if (typeof window !== "undefined") {
+    const stop = Locale.onChange((code) => {
+      locale.value = code
+    })
+    onScopeDispose(stop)
+  }
+
+  return readonly(locale)
+}
@@ -0,0 +1,71 @@
+import { createElement } from "react"
+import { renderToString } from "react-dom/server"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { effectScope } from "vue"
+import { Locale } from "../src/lib/locale"
+import { useLocale as useReactLocale } from "../src/react"
+import { locale } from "../src/svelte"
+import type { Configuration } from "../src/types"
+import { useLocale as useVueLocale } from "../src/vue"
+
+const mockConfig: Configuration = {
+  enabled: true,
+  default: "en",
+  locales: [
+    { code: "en", name: "English", endonym: "English", dir: "ltr" },
+    { code: "fi", name: "Finnish", endonym: "Suomi", dir: "ltr" },
+  ],
+}
+
+describe("Adapters", () => {
+  beforeEach(() => {
+    globalThis.__ASTRO_I18N_CONFIG__ = mockConfig
+    Locale.set("")
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("should render the current locale with React", () => {
+    const Current = () => createElement("span", null, useReactLocale())
+
+    Locale.set("fi")
+    expect(renderToString(createElement(Current))).toBe("<span>fi</span>")
+  })
+
+  it("should follow the locale with a Vue ref until its scope is disposed", () => {
+    vi.stubGlobal("window", {})
+    const scope = effectScope()
+    const current = scope.run(() => useVueLocale())!
+
+    expect(current.value).toBe("en")
+    Locale.set("fi")
+    expect(current.value).toBe("fi")
+
+    scope.stop()
+    Locale.set("en")
+    expect(current.value).toBe("fi")
+  })
+
+  it("should add no listener when rendering Vue on the server", () => {
+    const onChange = vi.spyOn(Locale, "onChange")
+    const scope = effectScope()
+
+    expect(scope.run(() => useVueLocale())?.value).toBe("en")
+    expect(onChange).not.toHaveBeenCalled()
+    scope.stop()
+  })
+
+  it("should follow the locale with a Svelte store", () => {
+    const values: string[] = []
+    const unsubscribe = locale.subscribe((code) => values.push(code))
+
+    Locale.set("fi")
+    unsubscribe()
+    Locale.set("en")
+
+    expect(values).toEqual(["en", "fi"])
+  })
+})
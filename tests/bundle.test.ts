@@ -0,0 +1,22 @@
+import path from "node:path"
+import { build, type Rollup } from "vite"
+import { describe, expect, it } from "vitest"
+
+describe("Bundle", () => {
+  it("should bundle the package entry for the browser", async () => {
+    const root = path.resolve(__dirname, "..")
+    const output = (await build({
+      root,
+      configFile: false,
+      logLevel: "silent",
+      build: {
+        write: false,
+        minify: false,
+        lib: { entry: path.join(root, "src/index.ts"), formats: ["es"] },
+      },
+    })) as Rollup.RollupOutput[]
+
+    const code = output[0].output.map((chunk) => ("code" in chunk ? chunk.code : "")).join("\n")
+    expect(code).toContain("Locale")
+  }, 60_000)
+})
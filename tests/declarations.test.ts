@@ -0,0 +1,96 @@
+import path from "node:path"
+import ts from "typescript"
+import { describe, expect, it } from "vitest"
+import { generateTypes } from "../src/lib/declarations"
+
+/**
+ * Emits the declarations of the package and type checks a file importing
+ * them, returning the errors
+ */
+function typecheck(source: string): string[] {
+  const root = path.resolve(__dirname, "..")
+  const out = path.join(root, "types")
+  const files = new Map<string, string>()
+
+  const options: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    strict: true,
+    skipLibCheck: true,
+  }
+  const emit = { ...options, declaration: true, emitDeclarationOnly: true, outDir: out }
+  ts.createProgram([path.join(root, "src/index.ts")], emit).emit(undefined, (file, text) => {
+    files.set(path.resolve(file), text)
+  })
+
+  const consumer = path.join(root, "consumer.ts")
+  files.set(consumer, source)
+
+  const host = ts.createCompilerHost(options)
+  const { fileExists, directoryExists, readFile, getSourceFile } = host
+  host.directoryExists = (dir) => dir.startsWith(out) || (directoryExists?.(dir) ?? false)
+  host.fileExists = (file) => files.has(path.resolve(file)) || fileExists(file)
+  host.readFile = (file) => files.get(path.resolve(file)) ?? readFile(file)
+  host.getSourceFile = (file, language, ...rest) => {
+    const text = files.get(path.resolve(file))
+    return text === undefined
+      ? getSourceFile(file, language, ...rest)
+      : ts.createSourceFile(file, text, language)
+  }
+
+  const program = ts.createProgram(
+    [consumer],
+    { ...options, noEmit: true, paths: { "@mannisto/astro-i18n": [path.join(out, "index.d.ts")] } },
+    host,
+  )
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((d) => `${d.start}: ${ts.flattenDiagnosticMessageText(d.messageText, "\n")}`)
+}
+
+describe("Declarations", () => {
+  it("should register every key with the variables of its message", () => {
+    const types = generateTypes(
+      {
+        welcome: "Welcome",
+        greeting: "Hello {name}",
+        "cart.items": "{count, plural, one {# item} other {# items}} for {name}",
+        reply: "{gender, select, other {They}} replied on {date, date, long}",
+      },
+      "en",
+    )
+
+    expect(types).toContain('declare module "@mannisto/astro-i18n" {')
+    expect(types).toContain('"welcome": {}')
+    expect(types).toContain('"greeting": { "name": string | number }')
+    expect(types).toContain('"cart.items": { "count": number; "name": string | number }')
+    expect(types).toContain('"reply": { "gender": string; "date": Date | number }')
+  })
+
+  it("should intersect the types of a variable used as different arguments", () => {
+    const types = generateTypes({ items: "{count} {count, plural, other {items}}" }, "en")
+    expect(types).toContain('"items": { "count": (string | number) & (number) }')
+  })
+
+  it("should mention the locale the types were generated from", () => {
+    expect(generateTypes({}, "fi")).toContain('from the "fi" translations')
+  })
+
+  it("should require the variables of a key with the published declarations", () => {
+    const types = generateTypes({ welcome: "Welcome", greeting: "Hello {name}" }, "en")
+    const source = `import { Locale } from "@mannisto/astro-i18n"
+${types}
+Locale.t("welcome")
+Locale.t("greeting", { name: "Ada" }, "fi")
+// @ts-expect-error The variables are missing
+Locale.t("greeting")
+// @ts-expect-error The name is missing
+Locale.t("greeting", {})
+// @ts-expect-error The key is not in the translations
+Locale.t("missing")
+`
+
+    expect(typecheck(source)).toEqual([])
+  }, 60_000)
+})
@@ -1,5 +1,11 @@
-import { beforeEach, describe, expect, it, vi } from "vitest"
+import { EventEmitter } from "node:events"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { pathToFileURL } from "node:url"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 import i18n from "../src/integration.ts"
+import type { Configuration } from "../src/types"
 
 /**
  * Mock parameters for Astro integration setup hook
@@ -25,6 +31,23 @@ const createMockParams = () => ({
   createCodegenDir: vi.fn(() => new URL("file:///tmp")),
 })
 
+/**
+ * Mock Vite dev server for the astro:server:setup hook
+ */
+const createMockServer = () => ({
+  watcher: Object.assign(new EventEmitter(), { add: vi.fn() }),
+  ws: { send: vi.fn() },
+  moduleGraph: {
+    idToModuleMap: new Map([
+      ["\0virtual:@mannisto/astro-i18n/server", { id: "server" }],
+      ["/src/pages/index.astro", { id: "page" }],
+    ]),
+    invalidateModule: vi.fn(),
+    getModulesByFile: vi.fn((): Set<{ id: string }> | undefined => undefined),
+  },
+  ssrLoadModule: vi.fn((file: string) => import(/* @vite-ignore */ `${file}?t=${Date.now()}`)),
+})
+
 describe("i18n Integration", () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -95,6 +118,126 @@ describe("i18n Integration", () => {
     })
   })
 
+  describe("Disabled", () => {
+    it("should load the translations of the single locale of a disabled site", async () => {
+      const integration = i18n({
+        enabled: false,
+        default: "fi",
+        locales: [],
+        translations: { enabled: true, path: "./tests/translations" },
+      })
+      await integration.hooks["astro:config:setup"]!(createMockParams() as any)
+
+      expect(globalThis.__ASTRO_I18N_CONFIG__).toMatchObject({
+        enabled: false,
+        default: "fi",
+        locales: [{ code: "fi" }],
+      })
+      expect(Object.keys(globalThis.__ASTRO_I18N_TRANSLATIONS__ ?? {})).toEqual(["fi"])
+    })
+  })
+
+  describe("Translation Delivery", () => {
+    const createIntegration = (client?: boolean | "auto") =>
+      i18n({
+        enabled: true,
+        default: "en",
+        locales: [
+          { code: "en", name: "English", endonym: "English", dir: "ltr" },
+          { code: "fi", name: "Finnish", endonym: "Suomi", dir: "ltr" },
+        ],
+        translations: {
+          enabled: true,
+          path: "./tests/translations",
+        },
+        client,
+      })
+
+    it("should register the plugin and only ship client scripts that need it by default", async () => {
+      const mockParams = createMockParams()
+      await createIntegration().hooks["astro:config:setup"]!(mockParams as any)
+
+      const [[{ vite }]] = mockParams.updateConfig.mock.calls
+      expect(vite.plugins.map((plugin: { name: string }) => plugin.name)).toEqual([
+        "@mannisto/astro-i18n",
+      ])
+      expect(mockParams.injectScript.mock.calls.map(([stage]) => stage)).toEqual(["page-ssr"])
+    })
+
+    it("should follow the site, base path and trailing slash setting of the project", async () => {
+      const mockParams = createMockParams()
+      mockParams.config = { site: "https://example.com", base: "/docs", trailingSlash: "always" }
+      await createIntegration().hooks["astro:config:setup"]!(mockParams as any)
+
+      expect(globalThis.__ASTRO_I18N_CONFIG__?.urls).toEqual({
+        site: "https://example.com",
+        base: "/docs",
+        trailingSlash: "always",
+      })
+    })
+
+    it("should register the middleware that scopes the locale to each request", async () => {
+      const mockParams = createMockParams()
+      await createIntegration().hooks["astro:config:setup"]!(mockParams as any)
+
+      expect(mockParams.addMiddleware).toHaveBeenCalledWith({
+        entrypoint: "virtual:@mannisto/astro-i18n/middleware",
+        order: "pre",
+      })
+    })
+
+    it("should inline the client configuration on every page when client is true", async () => {
+      const mockParams = createMockParams()
+      await createIntegration(true).hooks["astro:config:setup"]!(mockParams as any)
+
+      const [, inline] = mockParams.injectScript.mock.calls.find(
+        ([stage]) => stage === "head-inline",
+      )!
+      expect(inline).toContain("__ASTRO_I18N_CONFIG__")
+      expect(inline).not.toContain("./tests/translations")
+      expect(inline).not.toContain("Hello")
+      expect(mockParams.injectScript).toHaveBeenCalledWith(
+        "page",
+        expect.stringContaining("virtual:@mannisto/astro-i18n/client"),
+      )
+    })
+
+    it("should require a domain for every locale with the domains strategy", async () => {
+      const integration = i18n({
+        enabled: true,
+        default: "en",
+        locales: [
+          { code: "en", name: "English", endonym: "English", dir: "ltr" },
+          { code: "fi", name: "Finnish", endonym: "Suomi", dir: "ltr" },
+        ],
+        routing: { strategy: "domains", domains: { en: "https://example.com" } },
+      })
+
+      await expect(
+        integration.hooks["astro:config:setup"]!(createMockParams() as any),
+      ).rejects.toThrow('"routing.domains" must have a URL such as "https://example.com" for fi')
+    })
+
+    it("should reject slugs used for two segments", async () => {
+      const integration = i18n({
+        enabled: true,
+        default: "en",
+        locales: [{ code: "en", name: "English", endonym: "English", dir: "ltr" }],
+        routing: { slugs: { fi: { about: "tietoa", info: "tietoa" } } },
+      })
+
+      await expect(
+        integration.hooks["astro:config:setup"]!(createMockParams() as any),
+      ).rejects.toThrow('"routing.slugs.fi" uses "tietoa" for both "about" and "info"')
+    })
+
+    it("should reject an invalid client option", async () => {
+      await expect(
+        createIntegration("always" as any).hooks["astro:config:setup"]!(createMockParams() as any),
+      ).rejects.toThrow('"client" must be true, false or "auto"')
+    })
+  })
+
   describe("Configuration States", () => {
     it("should handle disabled i18n configuration", () => {
       const mockInjectScript = vi.fn()
@@ -224,6 +367,20 @@ describe("i18n Integration", () => {
       }).rejects.toThrow('"default" must be one of the supported locale codes')
     })
 
+    it("should reject locale codes that are not BCP 47 language tags", async () => {
+      const setup = (locales: Configuration["locales"]) =>
+        i18n({ enabled: true, default: "en", locales }).hooks["astro:config:setup"]!(
+          createMockParams() as any,
+        )
+
+      await expect(setup([{ code: "en" }, { code: "fi_FI" }])).rejects.toThrow(
+        '"fi_FI" in "locales" is not a valid BCP 47 language tag',
+      )
+      await expect(setup([{ code: "en", hreflang: "en_US" }])).rejects.toThrow(
+        '"en_US" in "locales" is not a valid BCP 47 language tag',
+      )
+    })
+
     it("should validate translations configuration when provided", async () => {
       const mockInjectScript = vi.fn()
       const mockLogger = {
@@ -265,5 +422,321 @@ describe("i18n Integration", () => {
         await setupHook(mockParams as any)
       }).rejects.toThrow('"default" is required when enabled is true')
     })
+
+    it("should report a missing configuration as invalid", async () => {
+      const integration = i18n(undefined as any)
+
+      await expect(
+        integration.hooks["astro:config:setup"]!(createMockParams() as any),
+      ).rejects.toThrow("The configuration must be an object")
+    })
+  })
+
+  describe("Translation Types", () => {
+    it("should inject types generated from the default locale", async () => {
+      const integration = i18n({
+        enabled: true,
+        default: "en",
+        locales: [
+          { code: "en", name: "English", endonym: "English", dir: "ltr" },
+          { code: "fi", name: "Finnish", endonym: "Suomi", dir: "ltr" },
+        ],
+        translations: {
+          enabled: true,
+          path: "./tests/translations",
+        },
+      })
+
+      await integration.hooks["astro:config:setup"]!(createMockParams() as any)
+
+      const injectTypes = vi.fn()
+      await integration.hooks["astro:config:done"]!({ injectTypes } as any)
+
+      expect(injectTypes).toHaveBeenCalledWith({
+        filename: "translations.d.ts",
+        content: expect.stringContaining('"greeting": { "name": string | number }'),
+      })
+    })
+
+    it("should regenerate types when a translation file changes in dev", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "astro-i18n-"))
+      fs.mkdirSync(path.join(dir, "translations"))
+      fs.writeFileSync(path.join(dir, "translations/en.ts"), 'export default { hello: "Hi" }')
+
+      try {
+        const integration = i18n({
+          enabled: true,
+          default: "en",
+          locales: [{ code: "en", name: "English", endonym: "English", dir: "ltr" }],
+          translations: {
+            enabled: true,
+            path: "./translations",
+          },
+        })
+
+        const mockParams = createMockParams()
+        mockParams.config = { root: pathToFileURL(`${dir}/`) }
+        mockParams.createCodegenDir = vi.fn(() => pathToFileURL(`${dir}/`))
+        await integration.hooks["astro:config:setup"]!(mockParams as any)
+
+        const server = createMockServer()
+        const { watcher } = server
+        const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+        await integration.hooks["astro:server:setup"]!({
+          server,
+          logger: mockLogger,
+        } as any)
+        expect(watcher.add).toHaveBeenCalledWith(path.join(dir, "translations"))
+
+        const file = path.join(dir, "translations/en.ts")
+        fs.writeFileSync(file, 'export default { hello: "Hi {name}" }')
+        watcher.emit("change", file)
+
+        await vi.waitFor(() => {
+          expect(mockLogger.info).toHaveBeenCalledWith("regenerated translation types")
+        })
+        expect(fs.readFileSync(path.join(dir, "translations.d.ts"), "utf8")).toContain(
+          '"hello": { "name": string | number }',
+        )
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe("Hot Reload", () => {
+    let dir: string
+    let file: string
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "astro-i18n-"))
+      file = path.join(dir, "translations/en.json")
+      fs.mkdirSync(path.join(dir, "translations"))
+      fs.writeFileSync(file, '{ "hello": "Hi" }')
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    const setup = async (command = "dev", options: Partial<Configuration> = {}) => {
+      const integration = i18n({
+        enabled: true,
+        default: "en",
+        locales: [{ code: "en", name: "English", endonym: "English", dir: "ltr" }],
+        ...options,
+        translations: {
+          enabled: true,
+          path: "./translations",
+          ...options.translations,
+        },
+      })
+
+      const mockParams = createMockParams()
+      mockParams.command = command
+      mockParams.config = { root: pathToFileURL(`${dir}/`) }
+      mockParams.createCodegenDir = vi.fn(() => pathToFileURL(`${dir}/`))
+      await integration.hooks["astro:config:setup"]!(mockParams as any)
+
+      const [[{ vite }]] = mockParams.updateConfig.mock.calls
+      const [plugin] = vite.plugins
+      const server = createMockServer()
+      const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+      await integration.hooks["astro:server:setup"]!({ server, logger } as any)
+
+      const load = () => plugin.load("\0virtual:@mannisto/astro-i18n/server")
+      return { server, logger, load }
+    }
+
+    it("should reload the translations and refresh the page when a file changes", async () => {
+      const { server, logger, load } = await setup()
+
+      fs.writeFileSync(file, '{ "hello": "Hello" }')
+      server.watcher.emit("change", file)
+
+      await vi.waitFor(() => {
+        expect(server.ws.send).toHaveBeenCalledWith({ type: "full-reload" })
+      })
+      expect(logger.info).toHaveBeenCalledWith("reloaded translations")
+      expect(globalThis.__ASTRO_I18N_TRANSLATIONS__).toEqual({ en: { hello: "Hello" } })
+      expect(load()).toContain('"hello":"Hello"')
+      expect(server.moduleGraph.invalidateModule).toHaveBeenCalledTimes(1)
+      expect(server.moduleGraph.invalidateModule).toHaveBeenCalledWith({ id: "server" })
+    })
+
+    it("should show errors in the overlay and keep the dev server running", async () => {
+      const { server, logger, load } = await setup()
+
+      fs.writeFileSync(file, '{ "hello": "{name" }')
+      server.watcher.emit("change", file)
+
+      await vi.waitFor(() => {
+        expect(server.ws.send).toHaveBeenCalledWith({ type: "full-reload" })
+      })
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to reload translations: Invalid message "hello"'),
+      )
+      expect(load).toThrow('Invalid message "hello"')
+      expect(globalThis.__ASTRO_I18N_TRANSLATIONS__).toEqual({ en: { hello: "Hi" } })
+
+      fs.writeFileSync(file, '{ "hello": "Hello" }')
+      server.watcher.emit("change", file)
+
+      await vi.waitFor(() => {
+        expect(load()).toContain('"hello":"Hello"')
+      })
+    })
+
+    it("should report incomplete translations when a file changes", async () => {
+      fs.writeFileSync(path.join(dir, "translations/fi.json"), '{ "hello": "Hei" }')
+      const { server, logger, load } = await setup("dev", {
+        locales: [
+          { code: "en", name: "English", endonym: "English", dir: "ltr" },
+          { code: "fi", name: "Finnish", endonym: "Suomi", dir: "ltr" },
+        ],
+        translations: { enabled: true, report: "./report.json", strict: true },
+      })
+
+      fs.writeFileSync(file, '{ "hello": "Hi", "bye": "Bye" }')
+      server.watcher.emit("change", file)
+
+      await vi.waitFor(() => {
+        expect(server.ws.send).toHaveBeenCalledWith({ type: "full-reload" })
+      })
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.stringContaining("Incomplete translations:\nfi is missing 1 key(s): bye"),
+      )
+      expect(load).toThrow("Incomplete translations")
+      const report = JSON.parse(fs.readFileSync(path.join(dir, "report.json"), "utf8"))
+      expect(report.locales.fi.missing).toEqual(["bye"])
+    })
+
+    it("should reload one at a time and keep the latest translations", async () => {
+      file = path.join(dir, "translations/en.ts")
+      fs.rmSync(path.join(dir, "translations/en.json"))
+      fs.writeFileSync(file, 'export default { hello: "Hi" }')
+      const { server, logger } = await setup()
+
+      // The first reload is slower than the second
+      server.ssrLoadModule
+        .mockImplementationOnce(
+          () =>
+            new Promise((resolve) => setTimeout(() => resolve({ default: { hello: "A" } }), 50)),
+        )
+        .mockImplementationOnce(async () => ({ default: { hello: "B" } }))
+      const mod = { id: file }
+      server.moduleGraph.getModulesByFile.mockReturnValue(new Set([mod]))
+
+      server.watcher.emit("change", file)
+      await vi.waitFor(() => expect(server.ssrLoadModule).toHaveBeenCalledTimes(1))
+      server.watcher.emit("change", file)
+      server.watcher.emit("change", file)
+
+      await vi.waitFor(() => {
+        expect(logger.info.mock.calls.filter(([m]) => m === "reloaded translations")).toHaveLength(
+          2,
+        )
+      })
+      expect(server.ssrLoadModule).toHaveBeenCalledTimes(2)
+      expect(server.moduleGraph.invalidateModule).toHaveBeenCalledWith(mod)
+      expect(globalThis.__ASTRO_I18N_TRANSLATIONS__).toEqual({ en: { hello: "B" } })
+    })
+
+    it("should only fail on startup when building", async () => {
+      fs.writeFileSync(file, '{ "hello": "{name" }')
+
+      const { load } = await setup()
+      expect(load).toThrow('Invalid message "hello"')
+
+      await expect(setup("build")).rejects.toThrow('Invalid message "hello"')
+    })
+  })
+
+  describe("Translation Report", () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "astro-i18n-"))
+      fs.mkdirSync(path.join(dir, "translations"))
+      fs.writeFileSync(
+        path.join(dir, "translations/en.ts"),
+        'export default { hello: "Hello", greeting: "Hello {name}" }',
+      )
+      fs.writeFileSync(path.join(dir, "translations/fi.ts"), 'export default { hello: "Hei" }')
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    const createIntegration = (strict: boolean) =>
+      i18n({
+        enabled: true,
+        default: "en",
+        locales: [
+          { code: "en", name: "English", endonym: "English", dir: "ltr" },
+          { code: "fi", name: "Finnish", endonym: "Suomi", dir: "ltr" },
+        ],
+        translations: {
+          enabled: true,
+          path: "./translations",
+          strict,
+          report: "./reports/translations.json",
+        },
+      })
+
+    it("should warn about incomplete translations and write the report", async () => {
+      const mockParams = createMockParams()
+      mockParams.config = { root: pathToFileURL(`${dir}/`) }
+      await createIntegration(false).hooks["astro:config:setup"]!(mockParams as any)
+
+      expect(mockParams.logger.warn).toHaveBeenCalledWith("fi is missing 1 key(s): greeting")
+
+      const report = JSON.parse(
+        fs.readFileSync(path.join(dir, "reports/translations.json"), "utf8"),
+      )
+      expect(report.locales.fi.missing).toEqual(["greeting"])
+    })
+
+    it("should fail in strict mode", async () => {
+      const mockParams = createMockParams()
+      mockParams.config = { root: pathToFileURL(`${dir}/`) }
+
+      await expect(
+        createIntegration(true).hooks["astro:config:setup"]!(mockParams as any),
+      ).rejects.toThrow("Incomplete translations:\nfi is missing 1 key(s): greeting")
+      expect(fs.existsSync(path.join(dir, "reports/translations.json"))).toBe(true)
+    })
+  })
+
+  describe("Fallback Reporting", () => {
+    it("should warn about translations that fell back when the build is done", () => {
+      const mockLogger = {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      }
+
+      globalThis.__ASTRO_I18N_FALLBACKS__ = new Map([
+        ["fi:hello", { key: "hello", locale: "fi", resolved: "en" }],
+        ["fi:missing", { key: "missing", locale: "fi" }],
+      ])
+
+      const integration = i18n({
+        enabled: true,
+        default: "en",
+        locales: [{ code: "en", name: "English", endonym: "English", dir: "ltr" }],
+      })
+
+      const buildDoneHook = integration.hooks["astro:build:done"]!
+      buildDoneHook({ logger: mockLogger } as any)
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'translation "hello" is missing in fi, fell back to en',
+      )
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'translation "missing" is missing in fi and all of its fallbacks',
+      )
+    })
   })
 })
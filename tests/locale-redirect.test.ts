@@ -0,0 +1,125 @@
+import fs from "node:fs"
+import path from "node:path"
+import { describe, expect, it, vi } from "vitest"
+import type { RoutingStrategy } from "../src/types"
+
+// The inline script of the component, run with the values Astro defines for it
+const source = fs.readFileSync(
+  path.resolve(__dirname, "../src/components/LocaleRedirect.astro"),
+  "utf8",
+)
+const [, script] =
+  source.match(/<script is:inline define:vars=\{locale\}>([\s\S]*?)<\/script>/) ?? []
+
+// The inline script of the switcher saving the locale of a clicked link
+const [, switcher] =
+  fs
+    .readFileSync(path.resolve(__dirname, "../src/components/LocaleSwitcher.astro"), "utf8")
+    .match(/<script is:inline>([\s\S]*?)<\/script>/) ?? []
+
+interface Visit {
+  url: string
+  strategy: RoutingStrategy
+  languages?: string[]
+  saved?: string
+  slugs?: Record<string, Record<string, string>>
+}
+
+/**
+ * Runs the redirect script on a page, returning where it redirected to
+ */
+const visit = ({ url, strategy, languages = ["en-US"], saved, slugs = {} }: Visit) => {
+  const location = Object.assign(new URL(url), { replace: vi.fn() })
+  const locale = {
+    supported: ["en", "fi"],
+    default: "en",
+    storage: true,
+    browser: true,
+    routing: {
+      strategy,
+      domains: {},
+      query: "locale",
+      slugs,
+      base: "/",
+      trailingSlash: "ignore",
+    },
+  }
+  const storage = { getItem: () => saved ?? null }
+
+  new Function("locale", "location", "navigator", "localStorage", "window", script)(
+    locale,
+    location,
+    { languages, language: languages[0] },
+    storage,
+    { location },
+  )
+  return location.replace.mock.calls[0]?.[0]
+}
+
+/**
+ * Clicks the link of a locale in the switcher, returning the locale it saved
+ */
+const choose = (code: string) => {
+  const saved: Record<string, string> = {}
+  let click = (_event: unknown) => {}
+  const nav = {
+    addEventListener: (_type: string, handler: typeof click) => {
+      click = handler
+    },
+  }
+  const storage = {
+    setItem: (key: string, value: string) => {
+      saved[key] = value
+    },
+  }
+
+  new Function("document", "localStorage", switcher)(
+    { currentScript: { previousElementSibling: nav } },
+    storage,
+  )
+  click({ target: { closest: () => ({ getAttribute: () => code }) } })
+  return saved["astro-i18n-locale"]
+}
+
+describe("LocaleRedirect", () => {
+  it("should redirect unprefixed pages to the preferred locale", () => {
+    expect(visit({ url: "https://example.com/about", strategy: "prefix" })).toBe("/en/about")
+    expect(visit({ url: "https://example.com/about", strategy: "prefix", languages: ["fi"] })).toBe(
+      "/fi/about",
+    )
+    expect(visit({ url: "https://example.com/fi/about", strategy: "prefix" })).toBeUndefined()
+  })
+
+  it("should leave unprefixed pages of the default locale as they are", () => {
+    const strategy = "prefix-except-default"
+    expect(visit({ url: "https://example.com/about", strategy })).toBeUndefined()
+    expect(visit({ url: "https://example.com/about", strategy, saved: "en" })).toBeUndefined()
+    expect(visit({ url: "https://example.com/about", strategy, languages: ["fi-FI"] })).toBe(
+      "/fi/about",
+    )
+    expect(visit({ url: "https://example.com/fi/about", strategy })).toBeUndefined()
+  })
+
+  it("should redirect to the localized slugs of the locale", () => {
+    const slugs = { fi: { about: "tietoa", team: "tiimi" } }
+    const url = "https://example.com/about/team?page=2"
+    expect(visit({ url, strategy: "prefix", languages: ["fi"], slugs })).toBe(
+      "/fi/tietoa/tiimi?page=2",
+    )
+    expect(visit({ url, strategy: "prefix", slugs })).toBe("/en/about/team?page=2")
+    expect(visit({ url, strategy: "query", languages: ["fi"], slugs })).toBe(
+      "/tietoa/tiimi?page=2&locale=fi",
+    )
+  })
+
+  it("should keep the locale chosen in the switcher", () => {
+    const strategy = "prefix-except-default"
+    const url = "https://example.com/about"
+    const languages = ["fi-FI"]
+    expect(visit({ url, strategy, languages, saved: "fi" })).toBe("/fi/about")
+
+    const saved = choose("en")
+    expect(saved).toBe("en")
+    expect(visit({ url, strategy, languages, saved })).toBeUndefined()
+  })
+})
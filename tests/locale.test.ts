@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it } from "vitest"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 import { Locale } from "../src/lib/locale"
 import type { Configuration } from "../src/types"
 
@@ -38,6 +38,8 @@ describe("Locale", () => {
     // Reset global variables before each test
     globalThis.__ASTRO_I18N_CONFIG__ = undefined
     globalThis.__ASTRO_I18N_TRANSLATIONS__ = undefined
+    globalThis.__ASTRO_I18N_FALLBACKS__ = undefined
+    globalThis.__ASTRO_I18N_LOADERS__ = undefined
 
     // Reset current locale
     Locale.set("")
@@ -78,6 +80,7 @@ describe("Locale", () => {
         name: "English",
         endonym: "English",
         dir: "ltr",
+        hreflang: "en",
       })
 
       const fiInfo = Locale.info("fi")
@@ -86,12 +89,40 @@ describe("Locale", () => {
         name: "Finnish",
         endonym: "Suomi",
         dir: "ltr",
+        hreflang: "fi",
+      })
+    })
+
+    it("should derive the metadata of a locale from its code", () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        locales: [
+          ...mockConfig.locales,
+          { code: "sv-FI", hreflang: "sv-fi" },
+          { code: "ar", name: "Arabic (Standard)" },
+          { code: "zh-Hant-TW", dir: "ltr", region: "HK" },
+        ],
+      }
+
+      expect(Locale.info("sv-FI")).toEqual({
+        code: "sv-FI",
+        name: "Swedish (Finland)",
+        endonym: "Svenska (Finland)",
+        dir: "ltr",
+        region: "FI",
+        hreflang: "sv-fi",
+      })
+      expect(Locale.info("ar")).toMatchObject({ name: "Arabic (Standard)", dir: "rtl" })
+      expect(Locale.info("zh-Hant-TW")).toMatchObject({
+        region: "HK",
+        script: "Hant",
+        hreflang: "zh-Hant-TW",
       })
     })
 
     it("should fall back to default locale for non-existent locale", () => {
       // Should fall back to default locale when nonexistent locale is requested
-    expect(Locale.info("nonexistent")).toEqual(Locale.info("en"))
+      expect(Locale.info("nonexistent")).toEqual(Locale.info("en"))
     })
 
     it("should generate URLs with locale prefix", () => {
@@ -100,6 +131,479 @@ describe("Locale", () => {
       expect(Locale.url("about")).toBe("/en/about")
       expect(Locale.url("/", "fi")).toBe("/fi/")
     })
+
+    it("should generate URLs following the routing strategy", () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        routing: { strategy: "prefix-except-default" },
+      }
+      expect(Locale.url("/about")).toBe("/about")
+      expect(Locale.url("/about", "fi")).toBe("/fi/about")
+      expect(Locale.routing).toEqual({
+        strategy: "prefix-except-default",
+        domains: {},
+        query: "locale",
+        slugs: { en: {}, fi: {} },
+        base: "/",
+        trailingSlash: "ignore",
+      })
+
+      globalThis.__ASTRO_I18N_CONFIG__ = { ...mockConfig, routing: { strategy: "query" } }
+      expect(Locale.url("/about", "fi")).toBe("/about?locale=fi")
+    })
+
+    it("should localize slugs and map them back to canonical routes", () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        routing: { slugs: { fi: { about: "tietoa", team: "tiimi" } } },
+      }
+
+      expect(Locale.url("/about/team", "fi")).toBe("/fi/tietoa/tiimi")
+      expect(Locale.url("/about/team", "en")).toBe("/en/about/team")
+      expect(Locale.url("/toString", "en")).toBe("/en/toString")
+      expect(Locale.canonical("/fi/tietoa/tiimi?page=2")).toBe("/about/team?page=2")
+      expect(Locale.canonical("/tietoa", "fi")).toBe("/about")
+      expect(Locale.routing.slugs).toEqual({ en: {}, fi: { about: "tietoa", team: "tiimi" } })
+    })
+
+    it("should switch a URL to another locale", () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        routing: { slugs: { fi: { about: "tietoa" } } },
+      }
+
+      expect(Locale.switch("/en/about?page=2#team", "fi")).toBe("/fi/tietoa?page=2#team")
+      expect(Locale.switch(new URL("https://example.com/fi/tietoa"), "en")).toBe("/en/about")
+      expect(Locale.switch("/fi/", "en")).toBe("/en/")
+
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        urls: { base: "/docs", trailingSlash: "always" },
+      }
+      expect(Locale.switch("https://example.com/docs/fi/about?page=2", "en")).toBe(
+        "/docs/en/about/?page=2",
+      )
+
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        routing: { strategy: "query" },
+      }
+      expect(Locale.switch("/about?locale=fi&page=2", "en")).toBe("/about?page=2&locale=en")
+    })
+
+    it("should return the alternates of a page", () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        locales: [
+          ...mockConfig.locales,
+          { code: "ar-EG", name: "Arabic (Egypt)", endonym: "العربية", dir: "rtl" },
+        ],
+        routing: { slugs: { fi: { about: "tietoa" } } },
+      }
+
+      expect(Locale.alternates(new URL("https://example.com/ar-EG/about?page=2#team"))).toEqual({
+        lang: "ar-EG",
+        dir: "rtl",
+        canonical: "/ar-EG/about?page=2",
+        links: [
+          { hreflang: "en", href: "/en/about?page=2" },
+          { hreflang: "fi", href: "/fi/tietoa?page=2" },
+          { hreflang: "ar-EG", href: "/ar-EG/about?page=2" },
+          { hreflang: "x-default", href: "/en/about?page=2" },
+        ],
+        og: { locale: "ar_EG", alternates: ["en_US", "fi_FI"] },
+      })
+    })
+
+    it("should prefer the site of the project for absolute alternates", () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        routing: { strategy: "prefix-except-default" },
+        urls: { site: "https://example.org", base: "/docs" },
+      }
+
+      const alternates = Locale.alternates(new URL("http://localhost:4321/docs/fi/"))
+      expect(alternates.canonical).toBe("https://example.org/docs/fi/")
+      expect(alternates.links.at(-1)).toEqual({
+        hreflang: "x-default",
+        href: "https://example.org/docs/",
+      })
+
+      globalThis.__ASTRO_I18N_CONFIG__ = mockConfig
+      expect(Locale.alternates("/fi/about").links[0]).toEqual({ hreflang: "en", href: "/en/about" })
+      expect(Locale.alternates(new URL("http://localhost:4321/fi/")).canonical).toBe("/fi/")
+    })
+
+    it("should use the region of a locale for Open Graph", () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        locales: [{ code: "en", region: "GB" }, { code: "fi" }, { code: "zh-Hant" }],
+      }
+
+      expect(Locale.alternates("/zh-Hant/").og).toEqual({
+        locale: "zh_TW",
+        alternates: ["en_GB", "fi_FI"],
+      })
+    })
+
+    it("should read slugs from a translation namespace", () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = { ...mockConfig, routing: { slugs: "routes" } }
+      globalThis.__ASTRO_I18N_TRANSLATIONS__ = {
+        fi: { hello: "Hei", "routes.about": "tietoa" },
+      }
+
+      expect(Locale.url("/about", "fi")).toBe("/fi/tietoa")
+      expect(Locale.canonical("/fi/tietoa")).toBe("/about")
+    })
+  })
+
+  describe("Change Events", () => {
+    const locales = [
+      ...mockConfig.locales,
+      { code: "ar", name: "Arabic", endonym: "العربية", dir: "rtl" as const },
+    ]
+
+    beforeEach(() => {
+      globalThis.__ASTRO_I18N_CONFIG__ = { ...mockConfig, locales }
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      vi.resetModules()
+    })
+
+    it("should call the listeners when the locale is set", () => {
+      const listener = vi.fn()
+      const stop = Locale.onChange(listener)
+
+      Locale.set("fi")
+      Locale.set("fi")
+      stop()
+      Locale.set("en")
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith("fi")
+    })
+
+    it("should follow the store contract", () => {
+      const values: string[] = []
+      const unsubscribe = Locale.subscribe((locale) => values.push(locale))
+
+      Locale.set("ar")
+      unsubscribe()
+      Locale.set("fi")
+
+      expect(values).toEqual(["en", "ar"])
+    })
+
+    it("should update the lang and dir attributes of the document", () => {
+      const documentElement = { lang: "en", dir: "ltr" }
+      vi.stubGlobal("document", { documentElement })
+
+      Locale.set("ar")
+      expect(documentElement).toEqual({ lang: "ar", dir: "rtl" })
+    })
+
+    it("should follow the locale set in another tab", async () => {
+      const handlers: Record<string, (event: Partial<StorageEvent>) => void> = {}
+      vi.stubGlobal("window", {
+        addEventListener: (type: string, handler: (event: Partial<StorageEvent>) => void) => {
+          handlers[type] = handler
+        },
+      })
+      vi.stubGlobal("localStorage", { getItem: () => "fi", setItem: vi.fn() })
+      vi.resetModules()
+      const { Locale: BrowserLocale } = await import("../src/lib/locale")
+
+      const listener = vi.fn()
+      BrowserLocale.onChange(listener)
+      expect(BrowserLocale.current).toBe("fi")
+
+      handlers.storage({ key: "other", newValue: "ar" })
+      handlers.storage({ key: "astro-i18n-locale", newValue: "fi" })
+      handlers.storage({ key: "astro-i18n-locale", newValue: "ar" })
+
+      expect(BrowserLocale.current).toBe("ar")
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith("ar")
+    })
+
+    it("should ignore other tabs on pages without the configuration", async () => {
+      const handlers: Record<string, (event: Partial<StorageEvent>) => void> = {}
+      vi.stubGlobal("window", {
+        addEventListener: (type: string, handler: (event: Partial<StorageEvent>) => void) => {
+          handlers[type] = handler
+        },
+      })
+      vi.stubGlobal("localStorage", { getItem: () => null, setItem: vi.fn() })
+      globalThis.__ASTRO_I18N_CONFIG__ = undefined
+      vi.resetModules()
+      const { Locale: BrowserLocale } = await import("../src/lib/locale")
+
+      const listener = vi.fn()
+      BrowserLocale.onChange(listener)
+
+      expect(() => handlers.storage({ key: "astro-i18n-locale", newValue: "fi" })).not.toThrow()
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it("should set the locale on pages without the configuration", async () => {
+      const setItem = vi.fn()
+      vi.stubGlobal("window", { addEventListener: vi.fn() })
+      vi.stubGlobal("localStorage", { getItem: () => null, setItem })
+      globalThis.__ASTRO_I18N_CONFIG__ = undefined
+      vi.resetModules()
+      const { Locale: BrowserLocale } = await import("../src/lib/locale")
+
+      const listener = vi.fn()
+      BrowserLocale.onChange(listener)
+
+      expect(() => BrowserLocale.set("fi")).not.toThrow()
+      expect(setItem).toHaveBeenCalledWith("astro-i18n-locale", "fi")
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("Static Paths", () => {
+    beforeEach(() => {
+      globalThis.__ASTRO_I18N_CONFIG__ = mockConfig
+    })
+
+    it("should return a path for every locale", async () => {
+      expect(await Locale.staticPaths()).toEqual([
+        { params: { locale: "en" }, props: { locale: "en" } },
+        { params: { locale: "fi" }, props: { locale: "fi" } },
+      ])
+    })
+
+    it("should merge the params and props of the generator", async () => {
+      const posts: Record<string, string[]> = { en: ["hello", "about/team"], fi: [] }
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        routing: { slugs: { fi: { about: "tietoa", team: "tiimi" } } },
+      }
+
+      const paths = await Locale.staticPaths(
+        async (locale) =>
+          posts[locale].map((slug) => ({
+            params: { slug, page: 1 },
+            props: { title: `${slug} (${locale})` },
+          })),
+        { param: "lang", exclude: ["de"] },
+      )
+
+      expect(paths).toEqual([
+        {
+          params: { slug: "hello", page: 1, lang: "en" },
+          props: { title: "hello (en)", locale: "en" },
+        },
+        {
+          params: { slug: "about/team", page: 1, lang: "en" },
+          props: { title: "about/team (en)", locale: "en" },
+        },
+      ])
+
+      const translated = await Locale.staticPaths(() => [{ params: { slug: "about/team" } }])
+      expect(translated[1].params).toEqual({ slug: "tietoa/tiimi", locale: "fi" })
+    })
+
+    it("should leave out excluded locales and those without pages", async () => {
+      expect(await Locale.staticPaths(undefined, { exclude: ["en"] })).toEqual([
+        { params: { locale: "fi" }, props: { locale: "fi" } },
+      ])
+      expect(await Locale.staticPaths((locale) => (locale === "fi" ? undefined : [{}]))).toEqual([
+        { params: { locale: "en" }, props: { locale: "en" } },
+      ])
+    })
+
+    it("should follow the routing strategy", async () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        routing: { strategy: "prefix-except-default" },
+      }
+      expect((await Locale.staticPaths()).map((path) => path.params)).toEqual([
+        { locale: undefined },
+        { locale: "fi" },
+      ])
+
+      for (const strategy of ["query", "domains"] as const) {
+        globalThis.__ASTRO_I18N_CONFIG__ = {
+          ...mockConfig,
+          routing: {
+            strategy,
+            domains: { en: "https://example.com", fi: "https://example.fi" },
+          },
+        }
+        expect(await Locale.staticPaths()).toEqual([{ params: {}, props: { locale: "en" } }])
+      }
+    })
+  })
+
+  describe("Formatting", () => {
+    beforeEach(() => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        locales: [
+          mockConfig.locales[0],
+          {
+            ...mockConfig.locales[1],
+            formats: {
+              currency: "EUR",
+              number: { default: { maximumFractionDigits: 1 }, compact: { notation: "compact" } },
+              date: { default: { dateStyle: "long", timeZone: "UTC" } },
+              list: { default: { type: "disjunction" } },
+            },
+          },
+        ],
+        translations: {
+          ...mockConfig.translations,
+          formats: {
+            number: {
+              compact: { maximumFractionDigits: 0 },
+              precise: { minimumFractionDigits: 3 },
+            },
+          },
+        },
+      }
+    })
+
+    const date = new Date(Date.UTC(2024, 0, 15, 13, 30))
+
+    it("should format numbers in the current locale", () => {
+      expect(Locale.format.number(1234.56)).toBe("1,234.56")
+      expect(Locale.format.number(0.25, "percent")).toBe("25%")
+      expect(Locale.format.number(2, "precise")).toBe("2.000")
+
+      Locale.set("fi")
+      expect(Locale.format.number(1234.56)).toBe(new Intl.NumberFormat("fi").format(1234.6))
+      expect(Locale.format.number(1500, "compact")).toBe(
+        new Intl.NumberFormat("fi", { notation: "compact" }).format(1500),
+      )
+      expect(Locale.format.number(1234.56, { style: "unit", unit: "meter" }, "en")).toBe(
+        "1,234.56 m",
+      )
+    })
+
+    it("should format currency in the currency of the locale", () => {
+      expect(Locale.format.currency(9.5, undefined, "fi")).toBe(
+        new Intl.NumberFormat("fi", { style: "currency", currency: "EUR" }).format(9.5),
+      )
+      expect(Locale.format.currency(9.5, { currency: "USD" })).toBe("$9.50")
+      expect(() => Locale.format.currency(9.5)).toThrow('No currency for locale "en"')
+    })
+
+    it("should format currency styles of messages in the currency of the locale", () => {
+      expect(Locale.replace("{n, number, currency}", { n: 9.5 }, "fi")).toBe(
+        new Intl.NumberFormat("fi", { style: "currency", currency: "EUR" }).format(9.5),
+      )
+      expect(() => Locale.replace("{n, number, currency}", { n: 9.5 }, "en")).toThrow(
+        'No currency for locale "en"',
+      )
+    })
+
+    it("should format fallback messages in the currency of the locale they came from", () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        locales: [
+          { ...mockConfig.locales[0], formats: { currency: "USD" } },
+          mockConfig.locales[1],
+        ],
+      }
+      globalThis.__ASTRO_I18N_TRANSLATIONS__ = { en: { price: "{p, number, currency}" }, fi: {} }
+
+      expect(Locale.t("price", { p: 5 }, "fi")).toBe(
+        new Intl.NumberFormat("fi", { style: "currency", currency: "USD" }).format(5),
+      )
+    })
+
+    it("should format dates and times", () => {
+      expect(Locale.format.date(date, { dateStyle: "short", timeZone: "UTC" })).toBe("1/15/24")
+      expect(Locale.format.time(date.getTime(), { timeStyle: "short", timeZone: "UTC" })).toBe(
+        "1:30 PM",
+      )
+      expect(Locale.format.date(date.toISOString(), undefined, "fi")).toBe(
+        new Intl.DateTimeFormat("fi", { dateStyle: "long", timeZone: "UTC" }).format(date),
+      )
+    })
+
+    it("should format relative times and lists", () => {
+      expect(Locale.format.relative(-1, "day")).toBe("1 day ago")
+      expect(Locale.format.relative(-1, "day", { numeric: "auto" })).toBe("yesterday")
+      expect(Locale.format.list(["a", "b", "c"])).toBe("a, b, and c")
+      expect(Locale.format.list(["a", "b"], undefined, "fi")).toBe("a tai b")
+    })
+
+    it("should throw for unknown presets", () => {
+      expect(() => Locale.format.number(1, "huge")).toThrow('Unknown number format "huge"')
+      expect(() => Locale.format.list([], "short")).toThrow('Unknown list format "short"')
+    })
+  })
+
+  describe("Disabled", () => {
+    beforeEach(() => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        enabled: false,
+        default: "fi",
+        routing: { slugs: { fi: { about: "tietoa" } } },
+        urls: { site: "https://example.com" },
+      }
+      globalThis.__ASTRO_I18N_TRANSLATIONS__ = { fi: mockTranslations.fi }
+    })
+
+    it("should have the default locale as its only locale", () => {
+      expect(Locale.enabled).toBe(false)
+      expect(Locale.current).toBe("fi")
+      expect(Locale.default).toBe("fi")
+      expect(Locale.supported).toEqual(["fi"])
+      expect(Locale.info("en")).toMatchObject({ code: "fi", endonym: "Suomi" })
+
+      Locale.set("en")
+      expect(Locale.current).toBe("fi")
+    })
+
+    it("should use English when no default locale is configured", () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = { enabled: false } as Configuration
+
+      expect(Locale.current).toBe("en")
+      expect(Locale.supported).toEqual(["en"])
+      expect(Locale.info()).toMatchObject({ code: "en", name: "English", dir: "ltr" })
+    })
+
+    it("should return plain paths", () => {
+      expect(Locale.url("/about")).toBe("/about")
+      expect(Locale.url("/about?page=2", "en")).toBe("/about?page=2")
+      expect(Locale.canonical("/about")).toBe("/about")
+      expect(Locale.switch("/about#team", "en")).toBe("/about#team")
+      expect(Locale.routing.strategy).toBe("prefix")
+    })
+
+    it("should return no alternates and a single static path", async () => {
+      expect(Locale.alternates("/about")).toEqual({
+        lang: "fi",
+        dir: "ltr",
+        canonical: "https://example.com/about",
+        links: [],
+        og: { locale: "fi_FI", alternates: [] },
+      })
+      expect(await Locale.staticPaths(() => [{ params: { slug: "about" } }])).toEqual([
+        { params: { slug: "about" }, props: { locale: "fi" } },
+      ])
+    })
+
+    it("should translate and format in the default locale", async () => {
+      expect(Locale.t("hello")).toBe("Hei")
+      expect(Locale.translations()).toBe(mockTranslations.fi)
+      expect(Locale.translations("fi", "user")).toEqual({ welcome: "Tervetuloa, {name}!" })
+      expect(
+        Locale.replace("{count, plural, one {# kohde} other {# kohdetta}}", { count: 2 }),
+      ).toBe("2 kohdetta")
+      expect(Locale.format.number(1.5)).toBe("1,5")
+      expect(Locale.fallbacks()).toEqual([])
+
+      await Locale.load()
+      expect(Locale.translations()).toBe(mockTranslations.fi)
+    })
   })
 
   describe("Variable Replacement", () => {
@@ -114,6 +618,17 @@ describe("Locale", () => {
       expect(Locale.replace("Hello {name}!", {})).toBe("Hello {name}!")
     })
 
+    it("should replace every occurrence of a variable", () => {
+      expect(Locale.replace("{name}, {name}!", { name: "John" })).toBe("John, John!")
+    })
+
+    it("should format plurals with the plural rules of the given locale", () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = mockConfig
+      const text = "{count, plural, one {# viesti} other {# viestiä}}"
+      expect(Locale.replace(text, { count: 1 }, "fi")).toBe("1 viesti")
+      expect(Locale.replace(text, { count: 3 }, "fi")).toBe("3 viestiä")
+    })
+
     it("should handle numeric variables", () => {
       expect(Locale.replace("You have {count} messages", { count: 5 })).toBe("You have 5 messages")
     })
@@ -158,6 +673,39 @@ describe("Locale", () => {
       expect(translations).toEqual({})
     })
 
+    it("should not return object properties as the translations of a locale", () => {
+      expect(Locale.translations("constructor")).toEqual({})
+      expect(Locale.t("hello", {}, "toString")).toBe(Locale.t("hello", {}, "en"))
+    })
+
+    it("should return a nested view of the translations", () => {
+      const translations = Locale.translations("fi", { nested: true })
+      expect(translations).toEqual({
+        hello: "Hei",
+        welcome: "Tervetuloa",
+        goodbye: "Näkemiin",
+        user: { welcome: "Tervetuloa, {name}!" },
+        page: { title: "Sivustoni" },
+      })
+      expect(Locale.translations("fi", { nested: true })).toBe(translations)
+    })
+
+    it("should nest keys without reaching Object.prototype", () => {
+      globalThis.__ASTRO_I18N_TRANSLATIONS__ = { en: { "__proto__.polluted": "Yes" } }
+
+      const translations = Locale.translations("en", { nested: true })
+      expect(translations.__proto__).toEqual({ polluted: "Yes" })
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+    })
+
+    it("should return a single namespace without its prefix", () => {
+      expect(Locale.translations("fi", "user")).toEqual({ welcome: "Tervetuloa, {name}!" })
+      expect(Locale.translations(undefined, "page", { nested: true })).toEqual({
+        title: "My Website",
+      })
+      expect(Locale.translations("fi", "missing")).toEqual({})
+    })
+
     it("should work with variable replacement", () => {
       const translations = Locale.translations()
       const welcomeText = translations["user.welcome"]
@@ -167,4 +715,118 @@ describe("Locale", () => {
       expect(personalizedWelcome).toBe("Welcome, John!")
     })
   })
+
+  describe("Loading", () => {
+    beforeEach(() => {
+      globalThis.__ASTRO_I18N_CONFIG__ = mockConfig
+    })
+
+    it("should load the translations of a locale on demand", async () => {
+      globalThis.__ASTRO_I18N_LOADERS__ = {
+        fi: async () => ({ default: mockTranslations.fi }),
+      }
+
+      expect(Locale.t("hello", {}, "fi")).toBe("hello")
+      await Locale.load("fi")
+      expect(Locale.t("hello", {}, "fi")).toBe("Hei")
+    })
+
+    it("should merge a loaded namespace into the translations of its locale", async () => {
+      globalThis.__ASTRO_I18N_TRANSLATIONS__ = { fi: { hello: "Hei" } }
+      globalThis.__ASTRO_I18N_LOADERS__ = {
+        "fi/user": async () => ({ default: { "user.welcome": "Tervetuloa, {name}!" } }),
+      }
+
+      const before = Locale.translations("fi", "user")
+      await Locale.load("fi", "user")
+
+      expect(before).toEqual({})
+      expect(Locale.translations("fi", "user")).toEqual({ welcome: "Tervetuloa, {name}!" })
+      expect(Locale.translations("fi")).toEqual({
+        hello: "Hei",
+        "user.welcome": "Tervetuloa, {name}!",
+      })
+    })
+
+    it("should do nothing without a loader", async () => {
+      globalThis.__ASTRO_I18N_TRANSLATIONS__ = mockTranslations
+
+      await Locale.load("fi")
+      expect(Locale.translations("fi")).toBe(mockTranslations.fi)
+    })
+  })
+
+  describe("Translate", () => {
+    const regionalConfig: Configuration = {
+      ...mockConfig,
+      locales: [
+        ...mockConfig.locales,
+        { code: "fi-SV", name: "Finland Swedish", endonym: "Finlandssvenska", dir: "ltr" },
+        { code: "sv", name: "Swedish", endonym: "Svenska", dir: "ltr" },
+      ],
+    }
+
+    beforeEach(() => {
+      globalThis.__ASTRO_I18N_CONFIG__ = regionalConfig
+      globalThis.__ASTRO_I18N_TRANSLATIONS__ = {
+        ...mockTranslations,
+        "fi-SV": { hello: "Hej" },
+        sv: { hello: "Hej", goodbye: "Hej då" },
+      }
+    })
+
+    it("should translate a key in the current locale", () => {
+      Locale.set("fi")
+      expect(Locale.t("hello")).toBe("Hei")
+      expect(Locale.t("hello", undefined, "en")).toBe("Hello")
+    })
+
+    it("should replace variables", () => {
+      expect(Locale.t("user.welcome", { name: "John" })).toBe("Welcome, John!")
+      expect(Locale.t("user.welcome", { name: "Matti" }, "fi")).toBe("Tervetuloa, Matti!")
+    })
+
+    it("should fall back through the parent locales and the default", () => {
+      expect(Locale.t("hello", undefined, "fi-SV")).toBe("Hej")
+      expect(Locale.t("goodbye", undefined, "fi-SV")).toBe("Näkemiin")
+      expect(Locale.t("page.title", undefined, "sv")).toBe("My Website")
+    })
+
+    it("should follow a configured fallback chain", () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...regionalConfig,
+        translations: { ...regionalConfig.translations, fallback: { "fi-SV": ["sv", "fi"] } },
+      }
+
+      expect(Locale.t("goodbye", undefined, "fi-SV")).toBe("Hej då")
+      expect(Locale.t("welcome", undefined, "fi-SV")).toBe("Tervetuloa")
+
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...regionalConfig,
+        locales: [
+          ...mockConfig.locales,
+          { code: "fi-SV", fallback: ["sv"] },
+          { code: "sv", name: "Swedish", endonym: "Svenska", dir: "ltr" },
+        ],
+      }
+      expect(Locale.t("goodbye", undefined, "fi-SV")).toBe("Hej då")
+    })
+
+    it("should return the key when no locale has a translation", () => {
+      expect(Locale.t("missing.key", undefined, "fi")).toBe("missing.key")
+      expect(Locale.t("constructor", undefined, "fi")).toBe("constructor")
+    })
+
+    it("should report the keys that fell back", () => {
+      Locale.t("hello", undefined, "fi")
+      Locale.t("goodbye", undefined, "fi-SV")
+      Locale.t("goodbye", undefined, "fi-SV")
+      Locale.t("missing.key", undefined, "fi")
+
+      expect(Locale.fallbacks()).toEqual([
+        { key: "goodbye", locale: "fi-SV", resolved: "fi" },
+        { key: "missing.key", locale: "fi", resolved: undefined },
+      ])
+    })
+  })
 })
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest"
+import { type Context, check, format, parse } from "../src/lib/message"
+
+/**
+ * Creates a formatting context for the given locale
+ */
+const createContext = (locale: string): Context => ({
+  locale,
+  formats: {
+    number: { currency: { style: "currency", currency: "EUR" } },
+  },
+})
+
+const render = (text: string, values: Record<string, string | number | Date>, locale = "en") =>
+  format(parse(text), values, createContext(locale))
+
+describe("Message", () => {
+  describe("Parsing", () => {
+    it("should parse literal text and simple arguments", () => {
+      expect(parse("Hello {name}!")).toEqual([
+        "Hello ",
+        { type: "argument", name: "name", source: "{name}" },
+        "!",
+      ])
+    })
+
+    it("should parse plural arguments with offsets and exact matches", () => {
+      const [node] = parse("{count, plural, offset:1 =0 {none} one {# item} other {# items}}")
+      expect(node).toMatchObject({
+        type: "plural",
+        name: "count",
+        offset: 1,
+        options: {
+          "=0": ["none"],
+          one: [{ type: "pound" }, " item"],
+          other: [{ type: "pound" }, " items"],
+        },
+      })
+    })
+
+    it("should treat apostrophes as escapes only before syntax characters", () => {
+      expect(parse("It's '{literal}' and ''quoted''")).toEqual(["It's {literal} and 'quoted'"])
+    })
+
+    it("should throw on invalid syntax", () => {
+      expect(() => parse("Hello {name")).toThrow('Expected "," at column 12')
+      expect(() => parse("Hello }")).toThrow('Unexpected "}" at column 7')
+      expect(() => parse("{count, plural, one {# item}}")).toThrow('Missing "other" option')
+      expect(() => parse("{count, plural, several {x} other {y}}")).toThrow(
+        'Invalid plural selector "several"',
+      )
+      expect(() => parse("{value, unknown}")).toThrow('Unknown argument type "unknown"')
+      expect(() => parse("{g, select, a {x} a {y} other {z}}")).toThrow('Duplicate selector "a"')
+      expect(() => parse("{g, select, constructor {x} other {y}}")).not.toThrow()
+    })
+  })
+
+  describe("Checking", () => {
+    it("should reject unknown styles", () => {
+      expect(() => check(parse("{n, number, fancy}"), undefined)).toThrow(
+        'Unknown number style "fancy" in {n, number, fancy}',
+      )
+      expect(() => check(parse("{d, date, epoch}"), undefined)).toThrow(
+        'Unknown date style "epoch"',
+      )
+    })
+
+    it("should require a currency code for the currency style", () => {
+      expect(() => check(parse("{n, number, currency}"), undefined)).toThrow(
+        "needs a currency code",
+      )
+      expect(() => check(parse("{n, number, currency}"), createContext("en").formats)).not.toThrow()
+      expect(() => check(parse("{n, number, currency}"), undefined, "USD")).not.toThrow()
+    })
+  })
+
+  describe("Formatting", () => {
+    it("should replace every occurrence of an argument", () => {
+      expect(render("{name} and {name}", { name: "Ann" })).toBe("Ann and Ann")
+    })
+
+    it("should leave arguments without a value as written", () => {
+      expect(render("Hello {name}, {count, plural, other {#}}", {})).toBe(
+        "Hello {name}, {count, plural, other {#}}",
+      )
+    })
+
+    it("should pick plural forms with the locale's plural rules", () => {
+      const text = "{count, plural, =0 {no items} one {# item} other {# items}}"
+      expect(render(text, { count: 0 })).toBe("no items")
+      expect(render(text, { count: 1 })).toBe("1 item")
+      expect(render(text, { count: 1200 })).toBe("1,200 items")
+      expect(render(text, { count: 1200 }, "fi")).toBe("1\u00a0200 items")
+    })
+
+    it("should apply plural offsets", () => {
+      const text =
+        "{count, plural, offset:1 =0 {nobody} =1 {{host}} one {{host} and # other} other {{host} and # others}}"
+      expect(render(text, { count: 2, host: "Ann" })).toBe("Ann and 1 other")
+      expect(render(text, { count: 4, host: "Ann" })).toBe("Ann and 3 others")
+    })
+
+    it("should pick ordinal forms", () => {
+      const text = "{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}"
+      expect(render(text, { n: 1 })).toBe("1st")
+      expect(render(text, { n: 22 })).toBe("22nd")
+      expect(render(text, { n: 13 })).toBe("13th")
+    })
+
+    it("should select options", () => {
+      const text = "{gender, select, female {She} male {He} other {They}} replied"
+      expect(render(text, { gender: "female" })).toBe("She replied")
+      expect(render(text, { gender: "unknown" })).toBe("They replied")
+      expect(render(text, { gender: "constructor" })).toBe("They replied")
+      expect(render(text, { gender: "toString" })).toBe("They replied")
+    })
+
+    it("should format numbers, currencies and percentages", () => {
+      expect(render("{n, number}", { n: 1234.5 })).toBe("1,234.5")
+      expect(render("{n, number, integer}", { n: 1234.5 })).toBe("1,235")
+      expect(render("{n, number, percent}", { n: 0.25 })).toBe("25%")
+      expect(render("{n, number, currency}", { n: 9.5 })).toBe("€9.50")
+      expect(
+        format(
+          parse("{n, number, currency}"),
+          { n: 9.5 },
+          { locale: "en", formats: {}, currency: "USD" },
+        ),
+      ).toBe("$9.50")
+    })
+
+    it("should format dates and times", () => {
+      const date = new Date(Date.UTC(2025, 0, 15, 12))
+      expect(render("{d, date, long}", { d: date })).toBe(
+        new Intl.DateTimeFormat("en", { dateStyle: "long" }).format(date),
+      )
+      expect(render("{d, time, short}", { d: date.getTime() })).toBe(
+        new Intl.DateTimeFormat("en", { timeStyle: "short" }).format(date),
+      )
+    })
+  })
+})
@@ -0,0 +1,344 @@
+import path from "node:path"
+import type { MiddlewareHandler } from "astro"
+import { createServer } from "vite"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { Locale } from "../src/lib/locale"
+import { VIRTUAL, vitePlugin } from "../src/lib/plugin"
+import { onRequest, resolveLocale } from "../src/middleware"
+import type { Configuration } from "../src/types"
+
+const mockConfig: Configuration = {
+  enabled: true,
+  default: "en",
+  locales: [
+    { code: "en", name: "English", endonym: "English", dir: "ltr" },
+    { code: "fi", name: "Finnish", endonym: "Suomi", dir: "ltr" },
+    { code: "sv-FI", name: "Swedish (Finland)", endonym: "Svenska", dir: "ltr" },
+  ],
+  translations: {
+    enabled: true,
+    path: "./translations",
+  },
+}
+
+interface RenderOptions {
+  headers?: Record<string, string>
+  cookies?: Record<string, string>
+  prerendered?: boolean
+  response?: () => Response
+}
+
+/**
+ * Runs the middleware for a path, rendering the page with the given function
+ */
+const render = async (
+  pathname: string,
+  page: () => Promise<string> = async () => "",
+  options: RenderOptions = {},
+  handler: MiddlewareHandler = onRequest,
+) => {
+  const locals = {} as App.Locals
+  const rendered = vi.fn(
+    async (rewrite?: string) => options.response?.() ?? new Response(rewrite ?? (await page())),
+  )
+  const context = {
+    url: new URL(pathname, "https://example.com"),
+    request: new Request(new URL(pathname, "https://example.com"), { headers: options.headers }),
+    cookies: {
+      get: (name: string) => {
+        const value = options.cookies?.[name]
+        return value === undefined ? undefined : { value }
+      },
+    },
+    isPrerendered: options.prerendered ?? false,
+    locals,
+    redirect: (location: string, status: number) =>
+      new Response(null, { status, headers: { Location: location } }),
+  }
+  const response = (await handler(context as any, rendered as any)) as Response
+  return { locals, response, rendered, body: await response.text() }
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5))
+
+describe("Middleware", () => {
+  beforeEach(() => {
+    globalThis.__ASTRO_I18N_CONFIG__ = mockConfig
+    globalThis.__ASTRO_I18N_TRANSLATIONS__ = {
+      en: { hello: "Hello" },
+      fi: { hello: "Hei" },
+    }
+    Locale.set("")
+  })
+
+  describe("Resolution", () => {
+    it("should resolve the locale from the first segment of the path", () => {
+      expect(resolveLocale("/fi/about")).toBe("fi")
+      expect(resolveLocale("/en")).toBe("en")
+      expect(resolveLocale("/about")).toBe("en")
+      expect(resolveLocale("/")).toBe("en")
+    })
+
+    it("should prefer the path, then the cookie, then the Accept-Language header", () => {
+      const hints = { cookie: "fi", acceptLanguage: "sv-FI" }
+      expect(resolveLocale("/en/about", hints)).toBe("en")
+      expect(resolveLocale("/about", hints)).toBe("fi")
+      expect(resolveLocale("/about", { ...hints, cookie: "de" })).toBe("sv-FI")
+      expect(resolveLocale("/about", { acceptLanguage: "de, fr;q=0.5" })).toBe("en")
+    })
+  })
+
+  describe("Request Scope", () => {
+    it("should store the locale of the request in locals", async () => {
+      const { locals } = await render("/fi/about")
+      expect(locals.locale).toBe("fi")
+    })
+
+    it("should keep the locale of concurrent requests apart", async () => {
+      const page = async () => {
+        const before = Locale.current
+        await tick()
+        return `${before} ${Locale.current} ${Locale.url("/about")} ${Locale.t("hello")}`
+      }
+
+      const [fi, en] = await Promise.all([render("/fi/", page), render("/en/", page)])
+
+      expect(fi.body).toBe("fi fi /fi/about Hei")
+      expect(en.body).toBe("en en /en/about Hello")
+    })
+
+    it("should only change the locale of the current request when set", async () => {
+      const listener = vi.fn()
+      const stop = Locale.onChange(listener)
+      const { body, locals } = await render("/fi/", async () => {
+        Locale.set("en")
+        return Locale.current
+      })
+
+      expect(body).toBe("en")
+      expect(locals.locale).toBe("en")
+      expect(Locale.current).toBe("en")
+      expect(listener).not.toHaveBeenCalled()
+      stop()
+
+      Locale.set("fi")
+      expect(Locale.current).toBe("fi")
+    })
+  })
+
+  describe("Detection", () => {
+    it("should set Content-Language without Vary on prefixed paths", async () => {
+      const { response } = await render("/fi/about", undefined, {
+        headers: { "Accept-Language": "en" },
+      })
+
+      expect(response.headers.get("Content-Language")).toBe("fi")
+      expect(response.headers.get("Vary")).toBeNull()
+    })
+
+    it("should redirect unprefixed paths to the detected locale", async () => {
+      const { response, rendered } = await render("/about?page=2", undefined, {
+        headers: { "Accept-Language": "de-DE, fi-FI;q=0.8, en;q=0.5" },
+      })
+
+      expect(rendered).not.toHaveBeenCalled()
+      expect(response.status).toBe(302)
+      expect(response.headers.get("Location")).toBe("/fi/about?page=2")
+      expect(response.headers.get("Content-Language")).toBe("fi")
+      expect(response.headers.get("Vary")).toBe("Cookie, Accept-Language")
+    })
+
+    it("should prefer the locale cookie over the Accept-Language header", async () => {
+      const { response } = await render("/", undefined, {
+        headers: { "Accept-Language": "fi" },
+        cookies: { "astro-i18n-locale": "sv-FI" },
+      })
+
+      expect(response.headers.get("Location")).toBe("/sv-FI/")
+    })
+
+    it("should rewrite unprefixed paths when configured", async () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        detection: { unprefixed: "rewrite", cookie: false },
+      }
+
+      const { response, rendered, locals } = await render("/about", undefined, {
+        headers: { "Accept-Language": "fi" },
+        cookies: { "astro-i18n-locale": "en" },
+      })
+
+      expect(rendered).toHaveBeenCalledWith("/fi/about")
+      expect(locals.locale).toBe("fi")
+      expect(response.headers.get("Vary")).toBe("Accept-Language")
+    })
+
+    it("should only use the default locale when detection is turned off", async () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        detection: { unprefixed: "ignore", cookie: false, acceptLanguage: false },
+      }
+
+      const { response, locals } = await render("/about", undefined, {
+        headers: { "Accept-Language": "fi" },
+      })
+
+      expect(response.status).toBe(200)
+      expect(locals.locale).toBe("en")
+      expect(response.headers.get("Vary")).toBeNull()
+    })
+
+    it("should redirect to the localized URL of the routing strategy", async () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = { ...mockConfig, routing: { strategy: "query" } }
+
+      const { response } = await render("/about?page=2", undefined, {
+        headers: { "Accept-Language": "fi" },
+      })
+      expect(response.headers.get("Location")).toBe("/about?page=2&locale=fi")
+
+      const { response: localized, locals } = await render("/about?locale=sv-FI")
+      expect(localized.status).toBe(200)
+      expect(locals.locale).toBe("sv-FI")
+    })
+
+    it("should redirect within the base path", async () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = { ...mockConfig, urls: { base: "/docs" } }
+
+      const { response } = await render("/docs/about", undefined, {
+        headers: { "Accept-Language": "fi" },
+      })
+      expect(response.headers.get("Location")).toBe("/docs/fi/about")
+
+      const { response: localized, locals } = await render("/docs/fi/about")
+      expect(localized.status).toBe(200)
+      expect(locals.locale).toBe("fi")
+    })
+
+    it("should not detect the locale of unprefixed default locale paths", async () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        routing: { strategy: "prefix-except-default" },
+      }
+
+      const { response, locals } = await render("/about", undefined, {
+        headers: { "Accept-Language": "fi" },
+      })
+      expect(response.status).toBe(200)
+      expect(locals.locale).toBe("en")
+    })
+
+    it("should render localized slugs with the page of their canonical route", async () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = {
+        ...mockConfig,
+        routing: { slugs: { fi: { about: "tietoa" } } },
+      }
+
+      const { rendered, locals } = await render("/fi/tietoa?page=2")
+      expect(rendered).toHaveBeenCalledWith("/fi/about?page=2")
+      expect(locals.locale).toBe("fi")
+
+      const { rendered: canonical } = await render("/en/about")
+      expect(canonical).toHaveBeenCalledWith()
+    })
+
+    it("should render every request in the default locale when disabled", async () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = { ...mockConfig, enabled: false, default: "fi" }
+
+      const { response, rendered, locals, body } = await render(
+        "/en/about",
+        async () => `${Locale.current} ${Locale.url("/about")}`,
+        { headers: { "Accept-Language": "sv" } },
+      )
+      expect(rendered).toHaveBeenCalledWith()
+      expect(body).toBe("fi /about")
+      expect(locals.locale).toBe("fi")
+      expect(response.headers.get("Content-Language")).toBe("fi")
+      expect(response.headers.get("Vary")).toBeNull()
+    })
+
+    it("should leave Astro routes and endpoints alone", async () => {
+      const headers = { "Accept-Language": "fi" }
+      for (const pathname of ["/_image?href=/a.png", "/_server-islands/Foo", "/api/items"]) {
+        const { response, rendered, locals } = await render(pathname, undefined, { headers })
+        expect(rendered).toHaveBeenCalledWith()
+        expect(response.status).toBe(200)
+        expect(locals.locale).toBe("en")
+        expect(response.headers.get("Vary")).toBeNull()
+      }
+
+      globalThis.__ASTRO_I18N_CONFIG__ = { ...mockConfig, detection: { exclude: ["/feeds/"] } }
+      const { response: feed } = await render("/feeds/news.xml", undefined, { headers })
+      expect(feed.status).toBe(200)
+      const { response: api } = await render("/api/items", undefined, { headers })
+      expect(api.headers.get("Location")).toBe("/fi/api/items")
+    })
+
+    it("should set headers on responses whose headers are immutable", async () => {
+      const response = () => Response.redirect("https://example.com/elsewhere", 301)
+
+      const { response: prefixed } = await render("/fi/about", undefined, { response })
+      expect(prefixed.status).toBe(301)
+      expect(prefixed.headers.get("Location")).toBe("https://example.com/elsewhere")
+      expect(prefixed.headers.get("Content-Language")).toBe("fi")
+
+      globalThis.__ASTRO_I18N_CONFIG__ = { ...mockConfig, enabled: false }
+      const { response: disabled } = await render("/about", undefined, { response })
+      expect(disabled.status).toBe(301)
+      expect(disabled.headers.get("Content-Language")).toBe("en")
+    })
+
+    it("should leave prerendered pages to the default locale", async () => {
+      const { response, locals } = await render("/about", undefined, {
+        headers: { "Accept-Language": "fi" },
+        prerendered: true,
+      })
+
+      expect(response.status).toBe(200)
+      expect(locals.locale).toBe("en")
+      expect(response.headers.get("Vary")).toBeNull()
+    })
+  })
+
+  describe("Entry", () => {
+    it("should detect the locale of requests made before any page has loaded", async () => {
+      globalThis.__ASTRO_I18N_CONFIG__ = undefined
+      globalThis.__ASTRO_I18N_TRANSLATIONS__ = undefined
+
+      // The integration adds the middleware through its virtual entry
+      const server = await createServer({
+        configFile: false,
+        logLevel: "silent",
+        appType: "custom",
+        server: { middlewareMode: true, hmr: false, watch: null, ws: false },
+        optimizeDeps: { noDiscovery: true },
+        resolve: {
+          alias: {
+            "@mannisto/astro-i18n/middleware": path.resolve(__dirname, "../src/middleware.ts"),
+          },
+        },
+        plugins: [
+          vitePlugin({
+            config: mockConfig,
+            translations: () => ({ en: { hello: "Hello" }, fi: { hello: "Hei" } }),
+            namespaces: () => ({}),
+          }),
+        ],
+      })
+
+      try {
+        const entry = await server.ssrLoadModule(`${VIRTUAL}/middleware`)
+        const headers = { "Accept-Language": "fi" }
+        const { response } = await render("/about", undefined, { headers }, entry.onRequest)
+
+        expect(response.status).toBe(302)
+        expect(response.headers.get("Location")).toBe("/fi/about")
+        expect(globalThis.__ASTRO_I18N_TRANSLATIONS__).toEqual({
+          en: { hello: "Hello" },
+          fi: { hello: "Hei" },
+        })
+      } finally {
+        await server.close()
+      }
+    }, 60_000)
+  })
+})
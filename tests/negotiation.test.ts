@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { negotiate, parseAcceptLanguage } from "../src/lib/negotiation"
+
+describe("Negotiation", () => {
+  describe("parseAcceptLanguage", () => {
+    it("should order language tags by quality", () => {
+      expect(parseAcceptLanguage("en;q=0.5, fi-FI, sv;q=0.8, fi")).toEqual([
+        "fi-FI",
+        "fi",
+        "sv",
+        "en",
+      ])
+    })
+
+    it("should leave out wildcards, empty tags and tags with a quality of zero", () => {
+      expect(parseAcceptLanguage("*, de;q=0, , en")).toEqual(["en"])
+      expect(parseAcceptLanguage(null)).toEqual([])
+    })
+  })
+
+  describe("negotiate", () => {
+    const supported = ["en-US", "fi", "sv-FI"]
+
+    it("should match tags exactly, ignoring case", () => {
+      expect(negotiate(["sv-fi"], supported)).toBe("sv-FI")
+    })
+
+    it("should match the parent tags of a preference", () => {
+      expect(negotiate(["fi-FI"], supported)).toBe("fi")
+    })
+
+    it("should match another region of the same language", () => {
+      expect(negotiate(["en-GB", "fi"], supported)).toBe("en-US")
+      expect(negotiate(["sv"], supported)).toBe("sv-FI")
+    })
+
+    it("should return undefined when nothing matches", () => {
+      expect(negotiate(["de", "fr"], supported)).toBeUndefined()
+    })
+  })
+})
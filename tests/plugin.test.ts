@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest"
+import { clientConfig, VIRTUAL, vitePlugin } from "../src/lib/plugin"
+import type { Configuration } from "../src/types"
+
+const config: Configuration = {
+  enabled: true,
+  default: "en",
+  locales: [
+    { code: "en", name: "English", endonym: "English", dir: "ltr" },
+    { code: "fi", name: "Finnish", endonym: "Suomi", dir: "ltr" },
+  ],
+  translations: {
+    enabled: true,
+    path: "./src/translations",
+    format: "json",
+    separator: ":",
+    strict: true,
+    report: "./report.json",
+  },
+}
+
+const translations = {
+  en: { hello: "Hello", "checkout:pay": "Pay" },
+  fi: { hello: "Hei", "checkout:pay": "Maksa" },
+}
+
+const plugin = vitePlugin({
+  config,
+  translations: () => translations,
+  namespaces: () => ({ en: ["checkout"], fi: ["checkout"] }),
+})
+
+/**
+ * Transforms a module with the plugin
+ */
+const transform = (target: typeof plugin, code: string, id: string, ssr = false) =>
+  (target.transform as (code: string, id: string, options: { ssr: boolean }) => unknown)(code, id, {
+    ssr,
+  })
+
+/**
+ * Resolves and loads a virtual module of the plugin
+ */
+const load = (name: string) => {
+  const resolveId = plugin.resolveId as (id: string) => string | undefined
+  const id = resolveId(`${VIRTUAL}/${name}`)!
+  return (plugin.load as (id: string) => string | undefined)(id)
+}
+
+describe("Plugin", () => {
+  it("should only resolve its own virtual modules", () => {
+    const resolveId = plugin.resolveId as (id: string) => string | undefined
+    expect(resolveId(`${VIRTUAL}/client`)).toBe(`\0${VIRTUAL}/client`)
+    expect(resolveId("./page.astro")).toBeUndefined()
+  })
+
+  it("should leave out build-time options from the client configuration", () => {
+    expect(clientConfig(config).translations).toEqual({
+      enabled: true,
+      separator: ":",
+      fallback: undefined,
+      formats: undefined,
+    })
+  })
+
+  it("should export the configuration and every translation for the server", () => {
+    const code = load("server")
+    expect(code).toContain(`export const config = ${JSON.stringify(config)};`)
+    expect(code).toContain(`export const translations = ${JSON.stringify(translations)};`)
+  })
+
+  it("should make the configuration available to the middleware", () => {
+    const code = load("middleware")
+    expect(code).toContain(`import { config, translations } from "${VIRTUAL}/server";`)
+    expect(code).toContain('export { onRequest } from "@mannisto/astro-i18n/middleware";')
+    expect(code).toContain("globalThis.__ASTRO_I18N_CONFIG__ = config;")
+  })
+
+  it("should export a loader for every locale and namespace for the client", () => {
+    const code = load("client")
+    expect(code).toContain(`export const config = ${JSON.stringify(clientConfig(config))};`)
+    for (const key of ["en", "en/checkout", "fi", "fi/checkout"]) {
+      expect(code).toContain(`"${key}": () => import("${VIRTUAL}/translations/${key}")`)
+    }
+    expect(code).toContain("globalThis.__ASTRO_I18N_LOADERS__ = loaders;")
+    expect(code).not.toContain("Hello")
+  })
+
+  it("should export the translations of a locale or one of its namespaces", () => {
+    expect(load("translations/fi")).toBe(`export default ${JSON.stringify(translations.fi)};`)
+    expect(load("translations/fi/checkout")).toBe(
+      `export default ${JSON.stringify({ "checkout:pay": "Maksa" })};`,
+    )
+    expect(load("translations/sv")).toBe("export default {};")
+  })
+
+  it("should import the client module into browser modules that read the configuration", () => {
+    const code = "const config = globalThis.__ASTRO_I18N_CONFIG__"
+
+    expect(transform(plugin, code, "/src/lib/locale.ts")).toEqual({
+      code: `import "${VIRTUAL}/client";\n${code}`,
+      map: null,
+    })
+    expect(transform(plugin, code, "/src/lib/locale.ts", true)).toBeUndefined()
+    expect(transform(plugin, "export const a = 1", "/src/a.ts")).toBeUndefined()
+  })
+
+  it("should leave browser modules alone unless client delivery is automatic", () => {
+    const code = "const config = globalThis.__ASTRO_I18N_CONFIG__"
+    for (const client of [true, false]) {
+      const other = vitePlugin({
+        config: { ...config, client },
+        translations: () => translations,
+        namespaces: () => ({}),
+      })
+      expect(transform(other, code, "/src/lib/locale.ts")).toBeUndefined()
+    }
+  })
+})
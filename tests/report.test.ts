@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+import { createReport, describeReport } from "../src/lib/report"
+
+const translations = {
+  en: {
+    hello: "Hello",
+    greeting: "Hello {name}",
+    items: "{count, plural, one {# item} other {# items}}",
+    goodbye: "Goodbye",
+  },
+  fi: {
+    hello: "Hei",
+    greeting: "Hei {nimi}",
+    items: "{count, plural, one {# kohde} other {# kohdetta}}",
+    extra: "Ylimääräinen",
+  },
+  es: {
+    hello: "Hola",
+    greeting: "Hola {name}",
+    items: "{count, plural, one {# elemento} other {# elementos}}",
+    goodbye: "Adiós",
+  },
+}
+
+describe("Report", () => {
+  it("should compare every locale against the default locale", () => {
+    expect(createReport(translations, "en")).toEqual({
+      default: "en",
+      locales: {
+        fi: {
+          missing: ["goodbye"],
+          extra: ["extra"],
+          placeholders: [{ key: "greeting", expected: ["name"], actual: ["nimi"] }],
+        },
+        es: { missing: [], extra: [], placeholders: [] },
+      },
+    })
+  })
+
+  it("should describe every problem", () => {
+    expect(describeReport(createReport(translations, "en"))).toEqual([
+      "fi is missing 1 key(s): goodbye",
+      "fi has 1 key(s) not in en: extra",
+      'fi "greeting" uses placeholders {nimi} but en uses {name}',
+    ])
+  })
+
+  it("should compare keys named like members of Object.prototype", () => {
+    const translations = { en: { constructor: "Builder" }, fi: { toString: "Teksti" } }
+    expect(createReport(translations, "en").locales.fi).toEqual({
+      missing: ["constructor"],
+      extra: ["toString"],
+      placeholders: [],
+    })
+  })
+
+  it("should have no problems for complete translations", () => {
+    expect(describeReport(createReport({ en: translations.en }, "en"))).toEqual([])
+  })
+})
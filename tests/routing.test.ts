@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest"
+import { delocalize, localeOf, localize, translatePath, untranslatePath } from "../src/lib/routing"
+import type { Configuration, Routing, Urls } from "../src/types"
+
+const createConfig = (routing?: Routing, urls?: Urls): Configuration => ({
+  enabled: true,
+  default: "en",
+  locales: [
+    { code: "en", name: "English", endonym: "English", dir: "ltr" },
+    { code: "fi", name: "Finnish", endonym: "Suomi", dir: "ltr" },
+  ],
+  routing,
+  urls,
+})
+
+describe("Routing", () => {
+  describe("prefix", () => {
+    const config = createConfig()
+
+    it("should prefix every locale", () => {
+      expect(localize(config, "/about", "en")).toBe("/en/about")
+      expect(localize(config, "about?page=2", "fi")).toBe("/fi/about?page=2")
+    })
+
+    it("should read the locale from the first segment", () => {
+      expect(localeOf(config, "/fi/about")).toBe("fi")
+      expect(localeOf(config, "/about")).toBeUndefined()
+    })
+  })
+
+  describe("prefix-except-default", () => {
+    const config = createConfig({ strategy: "prefix-except-default" })
+
+    it("should prefix every locale but the default", () => {
+      expect(localize(config, "/about", "en")).toBe("/about")
+      expect(localize(config, "/about", "fi")).toBe("/fi/about")
+    })
+
+    it("should treat unprefixed paths as the default locale", () => {
+      expect(localeOf(config, "/fi/about")).toBe("fi")
+      expect(localeOf(config, "/about")).toBe("en")
+    })
+  })
+
+  describe("domains", () => {
+    const config = createConfig({
+      strategy: "domains",
+      domains: { en: "https://example.com", fi: "https://example.fi/" },
+    })
+
+    it("should use the domain of the locale", () => {
+      expect(localize(config, "/about", "en")).toBe("https://example.com/about")
+      expect(localize(config, "/about#team", "fi")).toBe("https://example.fi/about#team")
+    })
+
+    it("should read the locale from the host", () => {
+      expect(localeOf(config, new URL("https://example.fi/about"))).toBe("fi")
+      expect(localeOf(config, new URL("https://example.org/about"))).toBeUndefined()
+    })
+  })
+
+  describe("query", () => {
+    const config = createConfig({ strategy: "query", query: "lang" })
+
+    it("should set the query parameter, keeping the rest of the query", () => {
+      expect(localize(config, "/about", "fi")).toBe("/about?lang=fi")
+      expect(localize(config, "/about?page=2&lang=en#team", "fi")).toBe(
+        "/about?page=2&lang=fi#team",
+      )
+    })
+
+    it("should read the locale from the query parameter", () => {
+      expect(localeOf(config, "/about?lang=fi")).toBe("fi")
+      expect(localeOf(config, "/about?lang=de")).toBeUndefined()
+      expect(localeOf(config, "/about")).toBeUndefined()
+    })
+  })
+
+  describe("slugs", () => {
+    const slugs = { about: "tietoa", team: "tiimi", contact: "ota-yhteyttä" }
+
+    it("should translate every segment of a path", () => {
+      expect(translatePath("/about/team?page=2#top", slugs)).toBe("/tietoa/tiimi?page=2#top")
+      expect(translatePath("/blog/about", slugs)).toBe("/blog/tietoa")
+      expect(localize(createConfig(), "/about", "fi", slugs)).toBe("/fi/tietoa")
+    })
+
+    it("should not translate segments named after object properties", () => {
+      expect(translatePath("/toString/constructor", slugs)).toBe("/toString/constructor")
+      expect(untranslatePath("/toString", slugs)).toBe("/toString")
+    })
+
+    it("should map localized segments back to their canonical segments", () => {
+      expect(untranslatePath("/tietoa/tiimi?page=2", slugs)).toBe("/about/team?page=2")
+      expect(untranslatePath("/ota-yhteytt%C3%A4", slugs)).toBe("/contact")
+      expect(untranslatePath("/blog/%E0%A4%A", slugs)).toBe("/blog/%E0%A4%A")
+    })
+  })
+
+  describe("delocalize", () => {
+    it("should remove the locale following the strategy", () => {
+      expect(delocalize(createConfig(), "/fi/about?page=2")).toEqual({
+        locale: "fi",
+        path: "/about?page=2",
+      })
+      expect(delocalize(createConfig(), "/fi")).toEqual({ locale: "fi", path: "/" })
+      expect(delocalize(createConfig({ strategy: "prefix-except-default" }), "/about")).toEqual({
+        locale: "en",
+        path: "/about",
+      })
+      expect(delocalize(createConfig({ strategy: "query" }), "/about?locale=fi#team")).toEqual({
+        locale: "fi",
+        path: "/about#team",
+      })
+    })
+  })
+
+  describe("disabled", () => {
+    const config = {
+      ...createConfig({ strategy: "query", slugs: { fi: { about: "tietoa" } } }, { base: "/docs" }),
+      enabled: false,
+    }
+
+    it("should only add the base path and trailing slash", () => {
+      expect(localize(config, "/about?page=2", "fi", { about: "tietoa" })).toBe(
+        "/docs/about?page=2",
+      )
+      expect(localeOf(config, "/docs/about?locale=fi")).toBeUndefined()
+      expect(delocalize(config, "/docs/fi/about?locale=fi")).toEqual({
+        locale: undefined,
+        path: "/fi/about?locale=fi",
+      })
+    })
+  })
+
+  describe("base and trailing slash", () => {
+    it("should add the base path", () => {
+      const config = createConfig(undefined, { base: "/docs/" })
+      expect(localize(config, "/about?page=2", "fi")).toBe("/docs/fi/about?page=2")
+      expect(localize(config, "/", "fi")).toBe("/docs/fi/")
+      expect(localize(createConfig({ strategy: "query" }, { base: "/docs" }), "/", "fi")).toBe(
+        "/docs/?locale=fi",
+      )
+    })
+
+    it("should apply the trailing slash setting before the query string and hash", () => {
+      const always = createConfig(undefined, { trailingSlash: "always" })
+      expect(localize(always, "/about?page=2#team", "fi")).toBe("/fi/about/?page=2#team")
+      expect(localize(always, "/feed.xml", "fi")).toBe("/fi/feed.xml")
+
+      const never = createConfig(undefined, { base: "/docs", trailingSlash: "never" })
+      expect(localize(never, "/about/", "fi")).toBe("/docs/fi/about")
+      expect(
+        localize(createConfig({ strategy: "prefix-except-default" }, never.urls), "/", "en"),
+      ).toBe("/docs")
+    })
+
+    it("should leave absolute and external URLs alone", () => {
+      const config = createConfig(undefined, { base: "/docs" })
+      for (const url of [
+        "https://example.org/about",
+        "//cdn.example.com/a.js",
+        "mailto:hi@example.com",
+        "#team",
+        "?page=2",
+      ]) {
+        expect(localize(config, url, "fi")).toBe(url)
+      }
+    })
+
+    it("should remove the base path when reading the locale", () => {
+      const config = createConfig(undefined, { base: "/docs" })
+      expect(localeOf(config, "/docs/fi/about")).toBe("fi")
+      expect(delocalize(config, "/docs/fi/about?page=2")).toEqual({
+        locale: "fi",
+        path: "/about?page=2",
+      })
+    })
+  })
+})
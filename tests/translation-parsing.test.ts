@@ -1,172 +1,329 @@
 import fs from "node:fs"
+import os from "node:os"
 import path from "node:path"
-import { parse } from "@babel/parser"
-import traverse from "@babel/traverse"
-import { describe, expect, it } from "vitest"
-
-describe("Translation File Parsing", () => {
-  it("should parse translation files with comments and multi-line strings", () => {
-    const testFilePath = path.join(__dirname, "translations/en.ts")
-    const content = fs.readFileSync(testFilePath, "utf8")
-
-    const ast = parse(content, {
-      sourceType: "module",
-      plugins: ["typescript"],
-    })
-
-    const translationData: Record<string, string> = {}
-
-    traverse(ast, {
-      ExportDefaultDeclaration(path) {
-        const declaration = path.node.declaration
-        if (declaration.type === "ObjectExpression") {
-          declaration.properties.forEach((prop) => {
-            if (prop.type === "ObjectProperty" && prop.value.type === "StringLiteral") {
-              const key =
-                prop.key.type === "StringLiteral" ? prop.key.value : (prop.key as any).name
-              translationData[key] = prop.value.value
-            }
-          })
-        }
-      },
-    })
-
-    expect(translationData.welcome).toBe("Welcome")
-    expect(translationData.hello).toBe("Hello world")
-    expect(translationData.greeting).toBe("Hello {name}")
-    expect(translationData["long.text"]).toBe(
+import { afterEach, describe, expect, it } from "vitest"
+import { loadTranslations } from "../src/lib/translations"
+import type { Configuration } from "../src/types"
+
+/**
+ * Creates a configuration pointing at the given translations directory
+ */
+const createConfig = (dir: string, codes: string[] = ["en"]): Configuration => ({
+  enabled: true,
+  default: codes[0],
+  locales: codes.map((code) => ({ code, name: code, endonym: code, dir: "ltr" as const })),
+  translations: {
+    enabled: true,
+    path: dir,
+  },
+})
+
+describe("Translation File Loading", () => {
+  const temporary: string[] = []
+
+  /**
+   * Writes the given files into a temporary translations directory
+   */
+  const createDirectory = (files: Record<string, string>): string => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "astro-i18n-"))
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(dir, name), content)
+    }
+    temporary.push(dir)
+    return dir
+  }
+
+  afterEach(() => {
+    for (const dir of temporary.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it("should load translation files with comments and multi-line strings", async () => {
+    const translations = await loadTranslations(createConfig("translations"), __dirname)
+    const en = translations.en
+
+    expect(en.welcome).toBe("Welcome")
+    expect(en.hello).toBe("Hello world")
+    expect(en.greeting).toBe("Hello {name}")
+    expect(en["long.text"]).toBe(
       "This is a very long text that spans multiple lines and should be parsed correctly",
     )
-    expect(translationData["special.chars"]).toBe("Text with 'quotes' and \"double quotes\"")
-
-    expect(Object.keys(translationData)).toHaveLength(8)
-  })
-
-  it("should parse multiple language files correctly", () => {
-    const languages = ["en", "fi", "es"]
-    const expectedTranslations = {
-      en: {
-        welcome: "Welcome",
-        hello: "Hello world",
-        greeting: "Hello {name}",
-      },
-      fi: {
-        welcome: "Tervetuloa",
-        hello: "Hei maailma",
-        greeting: "Hei {name}",
-      },
-      es: {
-        welcome: "Bienvenido",
-        hello: "Hola mundo",
-        greeting: "Hola {name}",
-      },
-    }
+    expect(en["special.chars"]).toBe("Text with 'quotes' and \"double quotes\"")
+
+    expect(Object.keys(en)).toHaveLength(8)
+  })
+
+  it("should load multiple language files correctly", async () => {
+    const translations = await loadTranslations(
+      createConfig("translations", ["en", "fi", "es"]),
+      __dirname,
+    )
+
+    expect(translations.en.greeting).toBe("Hello {name}")
+    expect(translations.fi.greeting).toBe("Hei {name}")
+    expect(translations.es.greeting).toBe("Hola {name}")
+    expect(translations.fi.goodbye).toBe("Näkemiin")
+    expect(translations.es.goodbye).toBe("Adiós")
+  })
+
+  it("should evaluate imports, spreads, template literals and computed keys", async () => {
+    const translations = await loadTranslations(createConfig("translations/advanced"), __dirname)
+
+    expect(translations.en).toEqual({
+      "brand.name": "Mörkö",
+      escaped: 'Say "hi" if you\'re here',
+      apostrophe: "It's here",
+      template: "Welcome to Mörkö",
+      "page.title": "Title",
+    })
+  })
+
+  it("should flatten nested translations into dot-path keys", async () => {
+    const translations = await loadTranslations(createConfig("translations/nested"), __dirname)
+
+    expect(translations.en).toEqual({
+      "page.about.title": "About Us",
+      "page.about.welcome": "Welcome {name}!",
+      "page.home.link": "Go to Homepage",
+      "footer.copyright": "All rights reserved",
+    })
+  })
+
+  it("should throw when a key is both a string and a group", async () => {
+    const dir = createDirectory({
+      "en.ts": 'export default { page: "Page", "page.title": "Title" }',
+    })
+
+    await expect(loadTranslations(createConfig(dir))).rejects.toThrow(
+      `Translation "page" in ${path.join(dir, "en.ts")} is both a string and a group containing "page.title"`,
+    )
+  })
+
+  it("should throw when a key is defined more than once", async () => {
+    const dir = createDirectory({
+      "en.ts": 'export default { "page.title": "Title", page: { title: "Other" } }',
+    })
+
+    await expect(loadTranslations(createConfig(dir))).rejects.toThrow('Translation "page.title" in')
+  })
+
+  it("should accept keys named like members of Object.prototype", async () => {
+    const dir = createDirectory({
+      "en.ts": 'export default { constructor: "Builder", toString: { label: "Text" } }',
+    })
+
+    const translations = await loadTranslations(createConfig(dir))
+    expect(translations.en).toEqual({ constructor: "Builder", "toString.label": "Text" })
+  })
+
+  it("should reject keys containing __proto__", async () => {
+    const dir = createDirectory({
+      "en.ts": 'export default { "__proto__.polluted": "Yes" }',
+    })
+
+    await expect(loadTranslations(createConfig(dir))).rejects.toThrow(
+      `Translation "__proto__.polluted" in ${path.join(dir, "en.ts")} must not contain "__proto__"`,
+    )
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+
+  it("should load JavaScript translation files", async () => {
+    const dir = createDirectory({
+      "en.js": `export default { 'mixed.quotes': "Mixed quote value", "key1": 'value1', }`,
+    })
+
+    const translations = await loadTranslations(createConfig(dir))
+    expect(translations.en).toEqual({ "mixed.quotes": "Mixed quote value", key1: "value1" })
+  })
+
+  it("should load JSON, YAML and PO translation files", async () => {
+    const dir = createDirectory({
+      "en.json": JSON.stringify({ hello: "Hello", page: { title: "Title" } }),
+      "fi.yaml": "hello: Hei\npage:\n  title: Otsikko\n",
+      "es.po": [
+        'msgid ""',
+        'msgstr ""',
+        '"Language: es\\n"',
+        "",
+        "# Greeting",
+        'msgid "hello"',
+        'msgstr "Hola"',
+        "",
+        'msgctxt "page"',
+        'msgid "title"',
+        'msgstr ""',
+        '"Tí"',
+        '"tulo"',
+        "",
+        "#, fuzzy",
+        'msgid "draft"',
+        'msgstr "Borrador"',
+        "",
+        'msgid "untranslated"',
+        'msgstr ""',
+      ].join("\n"),
+    })
+
+    const translations = await loadTranslations(createConfig(dir, ["en", "fi", "es"]))
+    expect(translations).toEqual({
+      en: { hello: "Hello", "page.title": "Title" },
+      fi: { hello: "Hei", "page.title": "Otsikko" },
+      es: { hello: "Hola", "page.title": "Título" },
+    })
+  })
+
+  it("should only look for files of the configured format", async () => {
+    const dir = createDirectory({
+      "en.ts": 'export default { hello: "Module" }',
+      "en.yml": "hello: YAML",
+    })
+
+    const config = createConfig(dir)
+    config.translations!.format = "yaml"
+    expect((await loadTranslations(config)).en).toEqual({ hello: "YAML" })
+  })
+
+  it("should report the file and line of JSON, YAML and PO errors", async () => {
+    const json = createDirectory({ "en.json": '{\n  "hello": "Hello",\n}' })
+    await expect(loadTranslations(createConfig(json))).rejects.toThrow(
+      `Failed to load translation file ${path.join(json, "en.json")}:3:1`,
+    )
+
+    const yaml = createDirectory({ "en.yaml": "hello: Hello\nhello: Again\n" })
+    await expect(loadTranslations(createConfig(yaml))).rejects.toThrow(
+      `Failed to load translation file ${path.join(yaml, "en.yaml")}:2:1: Map keys must be unique`,
+    )
+
+    const po = createDirectory({ "en.po": 'msgid "hello"\nmsgstr "Hello"\nmsgid_broken "x"' })
+    await expect(loadTranslations(createConfig(po))).rejects.toThrow(
+      `Failed to load translation file ${path.join(po, "en.po")}:3: Unexpected`,
+    )
+
+    const plural = createDirectory({
+      "en.po": 'msgid "item"\nmsgid_plural "items"\nmsgstr[0] "item"\nmsgstr[1] "items"',
+    })
+    await expect(loadTranslations(createConfig(plural))).rejects.toThrow(
+      `${path.join(plural, "en.po")}:1: Plural entry "item" is not supported`,
+    )
+  })
+
+  it("should report the line of invalid values and messages", async () => {
+    const values = createDirectory({ "en.yaml": "hello: Hello\ncount: 1\n" })
+    await expect(loadTranslations(createConfig(values))).rejects.toThrow(
+      `Translation "count" in ${path.join(values, "en.yaml")}:2 must be a string or an object`,
+    )
+
+    const messages = createDirectory({
+      "en.json": '{\n  "hello": "Hello",\n  "items": "{count, plural, one {#}}"\n}',
+    })
+    await expect(loadTranslations(createConfig(messages))).rejects.toThrow(
+      `Invalid message "items" in ${path.join(messages, "en.json")}:3`,
+    )
+  })
+
+  it("should merge namespace files under their namespace prefix", async () => {
+    const dir = createDirectory({ "en.ts": 'export default { hello: "Hello" }' })
+    fs.mkdirSync(path.join(dir, "en"))
+    fs.writeFileSync(path.join(dir, "en/common.ts"), 'export default { ok: "OK" }')
+    fs.writeFileSync(path.join(dir, "en/checkout.json"), '{ "page": { "title": "Checkout" } }')
+    fs.mkdirSync(path.join(dir, "fi"))
+    fs.writeFileSync(path.join(dir, "fi/common.yaml"), "ok: Selvä\n")
+
+    const translations = await loadTranslations(createConfig(dir, ["en", "fi"]))
+    expect(translations).toEqual({
+      en: { hello: "Hello", "common.ok": "OK", "checkout.page.title": "Checkout" },
+      fi: { "common.ok": "Selvä" },
+    })
+
+    const config = createConfig(dir, ["en", "fi"])
+    config.translations!.separator = ":"
+    expect((await loadTranslations(config)).en).toEqual({
+      hello: "Hello",
+      "common:ok": "OK",
+      "checkout:page.title": "Checkout",
+    })
+  })
+
+  it("should detect duplicate keys and namespaces across files", async () => {
+    const duplicate = createDirectory({ "en.ts": 'export default { "common.ok": "OK" }' })
+    fs.mkdirSync(path.join(duplicate, "en"))
+    fs.writeFileSync(path.join(duplicate, "en/common.ts"), 'export default { ok: "Okay" }')
+    await expect(loadTranslations(createConfig(duplicate))).rejects.toThrow(
+      `Translation "common.ok" is defined in both ${path.join(duplicate, "en.ts")} and ${path.join(duplicate, "en/common.ts")}`,
+    )
+
+    const group = createDirectory({ "en.ts": 'export default { common: "Common" }' })
+    fs.mkdirSync(path.join(group, "en"))
+    fs.writeFileSync(path.join(group, "en/common.ts"), 'export default { ok: "Okay" }')
+    await expect(loadTranslations(createConfig(group))).rejects.toThrow(
+      `Translation "common" in ${path.join(group, "en.ts")} is both a string and a group containing "common.ok"`,
+    )
+
+    const namespace = createDirectory({})
+    fs.mkdirSync(path.join(namespace, "en"))
+    fs.writeFileSync(path.join(namespace, "en/common.ts"), "export default {}")
+    fs.writeFileSync(path.join(namespace, "en/common.json"), "{}")
+    await expect(loadTranslations(createConfig(namespace))).rejects.toThrow(
+      'Namespace "common" is defined by both',
+    )
+  })
+
+  it("should throw when a translation file is missing", async () => {
+    const dir = createDirectory({ "en.ts": "export default {}" })
+
+    await expect(loadTranslations(createConfig(dir, ["en", "fi"]))).rejects.toThrow(
+      'Translation file not found for locale "fi" (tried fi.ts, fi.js, fi.json, fi.yaml, fi.yml and fi.po, or a fi/ directory)',
+    )
+  })
+
+  it("should report the file and line of a syntax error", async () => {
+    const dir = createDirectory({
+      "en.ts": 'export default {\n  hello: "Hello",\n  broken: "Broken\n}\n',
+    })
+
+    await expect(loadTranslations(createConfig(dir))).rejects.toThrow(
+      `Failed to load translation file ${path.join(dir, "en.ts")}:3:`,
+    )
+  })
+
+  it("should report the file and line of a runtime error", async () => {
+    const dir = createDirectory({
+      "en.ts": "const shared: any = undefined\n\nexport default {\n  hello: shared.hello,\n}\n",
+    })
+
+    await expect(loadTranslations(createConfig(dir))).rejects.toThrow(
+      `Failed to load translation file ${path.join(dir, "en.ts")}:4:`,
+    )
+  })
+
+  it("should report invalid ICU messages", async () => {
+    const dir = createDirectory({
+      "en.ts": 'export default { items: "{count, plural, one {# item}}" }',
+    })
+
+    await expect(loadTranslations(createConfig(dir))).rejects.toThrow(
+      `Invalid message "items" in ${path.join(dir, "en.ts")}: Missing "other" option in plural`,
+    )
+  })
+
+  it("should accept currency styles for locales with a currency", async () => {
+    const dir = createDirectory({ "en.ts": 'export default { total: "{n, number, currency}" }' })
+    const config = createConfig(dir)
+
+    await expect(loadTranslations(config)).rejects.toThrow("needs a currency code")
+
+    config.locales[0].formats = { currency: "USD" }
+    expect((await loadTranslations(config)).en).toEqual({ total: "{n, number, currency}" })
+  })
+
+  it("should reject non-object default exports and non-string values", async () => {
+    const invalid = createDirectory({ "en.ts": 'export default "hello"' })
+    await expect(loadTranslations(createConfig(invalid))).rejects.toThrow(
+      "must have an object as its default export",
+    )
 
-    languages.forEach((lang) => {
-      const testFilePath = path.join(__dirname, `translations/${lang}.ts`)
-      const content = fs.readFileSync(testFilePath, "utf8")
-
-      const ast = parse(content, {
-        sourceType: "module",
-        plugins: ["typescript"],
-      })
-
-      const translationData: Record<string, string> = {}
-
-      traverse(ast, {
-        ExportDefaultDeclaration(path) {
-          const declaration = path.node.declaration
-          if (declaration.type === "ObjectExpression") {
-            declaration.properties.forEach((prop) => {
-              if (prop.type === "ObjectProperty" && prop.value.type === "StringLiteral") {
-                const key =
-                  prop.key.type === "StringLiteral" ? prop.key.value : (prop.key as any).name
-                translationData[key] = prop.value.value
-              }
-            })
-          }
-        },
-      })
-
-      const expected = expectedTranslations[lang as keyof typeof expectedTranslations]
-      expect(translationData.welcome).toBe(expected.welcome)
-      expect(translationData.hello).toBe(expected.hello)
-      expect(translationData.greeting).toBe(expected.greeting)
-      expect(Object.keys(translationData)).toHaveLength(8)
-    })
-  })
-
-  it("should handle single quotes and mixed quote styles", () => {
-    const content = `
-export default {
-  'single.quoted.key': 'Single quoted value',
-  "double.quoted.key": "Double quoted value",
-  'mixed.quotes': "Mixed quote value",
-  "another.mixed": 'Another mixed value',
-};
-`
-
-    const ast = parse(content, {
-      sourceType: "module",
-      plugins: ["typescript"],
-    })
-
-    const translationData: Record<string, string> = {}
-
-    traverse(ast, {
-      ExportDefaultDeclaration(path) {
-        const declaration = path.node.declaration
-        if (declaration.type === "ObjectExpression") {
-          declaration.properties.forEach((prop) => {
-            if (prop.type === "ObjectProperty" && prop.value.type === "StringLiteral") {
-              const key =
-                prop.key.type === "StringLiteral" ? prop.key.value : (prop.key as any).name
-              translationData[key] = prop.value.value
-            }
-          })
-        }
-      },
-    })
-
-    expect(translationData["single.quoted.key"]).toBe("Single quoted value")
-    expect(translationData["double.quoted.key"]).toBe("Double quoted value")
-    expect(translationData["mixed.quotes"]).toBe("Mixed quote value")
-    expect(translationData["another.mixed"]).toBe("Another mixed value")
-  })
-
-  it("should handle trailing commas", () => {
-    const content = `
-export default {
-  "key1": "value1",
-  "key2": "value2",
-  "key3": "value3",
-};
-`
-
-    const ast = parse(content, {
-      sourceType: "module",
-      plugins: ["typescript"],
-    })
-
-    const translationData: Record<string, string> = {}
-
-    traverse(ast, {
-      ExportDefaultDeclaration(path) {
-        const declaration = path.node.declaration
-        if (declaration.type === "ObjectExpression") {
-          declaration.properties.forEach((prop) => {
-            if (prop.type === "ObjectProperty" && prop.value.type === "StringLiteral") {
-              const key =
-                prop.key.type === "StringLiteral" ? prop.key.value : (prop.key as any).name
-              translationData[key] = prop.value.value
-            }
-          })
-        }
-      },
-    })
-
-    expect(translationData.key1).toBe("value1")
-    expect(translationData.key2).toBe("value2")
-    expect(translationData.key3).toBe("value3")
+    const numeric = createDirectory({ "en.ts": "export default { count: 1 }" })
+    await expect(loadTranslations(createConfig(numeric))).rejects.toThrow('Translation "count" in')
   })
 })
@@ -0,0 +1,6 @@
+/**
+ * Shared translations spread into every locale
+ */
+export const common = {
+  "brand.name": "Mörkö",
+}
@@ -0,0 +1,14 @@
+import { common } from "./common"
+
+const section = "page"
+
+/**
+ * English translations using features beyond plain string literals
+ */
+export default {
+  ...common,
+  escaped: 'Say "hi" if you\'re here',
+  apostrophe: "It's here",
+  template: `Welcome to ${common["brand.name"]}`,
+  [`${section}.title`]: "Title",
+}
@@ -0,0 +1,15 @@
+/**
+ * English translations grouped into nested objects
+ */
+export default {
+  page: {
+    about: {
+      title: "About Us",
+      welcome: "Welcome {name}!",
+    },
+    home: {
+      link: "Go to Homepage",
+    },
+  },
+  "footer.copyright": "All rights reserved",
+}
@@ -0,0 +1,72 @@
+import { describe, expectTypeOf, it } from "vitest"
+import { type CheckedConfiguration, defineI18nConfig } from "../src/lib/validation"
+
+describe("defineI18nConfig", () => {
+  it("should infer the locale codes from the locales", () => {
+    const config = defineI18nConfig({
+      enabled: true,
+      default: "fi",
+      locales: [{ code: "en" }, { code: "fi" }],
+      routing: { slugs: { fi: { about: "tietoa" } } },
+    })
+
+    expectTypeOf(config).toEqualTypeOf<CheckedConfiguration<"en" | "fi">>()
+  })
+
+  it("should reject a default locale that is not one of the locale codes", () => {
+    defineI18nConfig({
+      enabled: true,
+      // @ts-expect-error "de" is not one of the locale codes
+      default: "de",
+      locales: [{ code: "en" }, { code: "fi" }],
+    })
+  })
+
+  it("should reject fallbacks and slugs of unknown locales", () => {
+    defineI18nConfig({
+      enabled: true,
+      default: "en",
+      locales: [{ code: "en" }, { code: "fi" }],
+      // @ts-expect-error "sv" is not one of the locale codes
+      translations: { fallback: { sv: ["fi"] } },
+    })
+
+    defineI18nConfig({
+      enabled: true,
+      default: "en",
+      locales: [{ code: "en" }, { code: "fi" }],
+      // @ts-expect-error "sv" is not one of the locale codes
+      routing: { slugs: { sv: { about: "om" } } },
+    })
+  })
+
+  it("should require a domain for every locale with the domains strategy", () => {
+    defineI18nConfig({
+      enabled: true,
+      default: "en",
+      locales: [{ code: "en" }, { code: "fi" }],
+      routing: {
+        strategy: "domains",
+        domains: { en: "https://example.com", fi: "https://example.fi" },
+      },
+    })
+
+    defineI18nConfig({
+      enabled: true,
+      default: "en",
+      locales: [{ code: "en" }, { code: "fi" }],
+      // @ts-expect-error The domain of "fi" is missing
+      routing: { strategy: "domains", domains: { en: "https://example.com" } },
+    })
+  })
+
+  it("should reject unknown options", () => {
+    defineI18nConfig({
+      enabled: true,
+      default: "en",
+      locales: [{ code: "en" }],
+      // @ts-expect-error Not an option
+      fallbackLocale: "en",
+    })
+  })
+})
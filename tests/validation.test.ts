@@ -0,0 +1,107 @@
+import path from "node:path"
+import { describe, expect, it } from "vitest"
+import { defineI18nConfig, validate } from "../src/lib/validation"
+import type { Configuration } from "../src/types"
+
+const createConfig = (overrides: Record<string, unknown> = {}) =>
+  ({
+    enabled: true,
+    default: "en",
+    locales: [{ code: "en" }, { code: "fi", name: "Finnish", endonym: "Suomi", dir: "ltr" }],
+    ...overrides,
+  }) as Configuration
+
+/**
+ * Returns the problems reported for a configuration
+ */
+const problems = (config: Configuration, root?: string): string[] => {
+  try {
+    validate(config, root)
+    return []
+  } catch (error) {
+    const [heading, ...lines] = (error as Error).message.split("\n")
+    expect(heading).toBe("Invalid i18n configuration:")
+    return lines.map((line) => line.replace(/^- /, ""))
+  }
+}
+
+describe("Validation", () => {
+  it("should accept a valid configuration", () => {
+    expect(problems(createConfig())).toEqual([])
+    expect(problems({ enabled: false } as Configuration)).toEqual([])
+  })
+
+  it("should report every problem at once with its path", () => {
+    expect(
+      problems(
+        createConfig({
+          locales: [{ code: "en" }, { code: "fi", dir: "down" }, { name: "Swedish" }],
+          client: "sometimes",
+          routing: { strategy: "prefix", colour: "blue" },
+        }),
+      ),
+    ).toEqual([
+      '"locales[1].dir" must be "ltr" or "rtl"',
+      '"client" must be true, false or "auto"',
+      '"routing.colour" is not a known option',
+      '"locales[2].code" is required',
+    ])
+  })
+
+  it("should report duplicate and invalid locale codes", () => {
+    expect(
+      problems(
+        createConfig({
+          default: "de",
+          locales: [{ code: "en" }, { code: "en_GB" }, { code: "en" }],
+        }),
+      ),
+    ).toEqual([
+      '"en_GB" in "locales" is not a valid BCP 47 language tag',
+      '"locales[2].code" repeats "en" of "locales[0]"',
+      '"default" must be one of the supported locale codes',
+    ])
+  })
+
+  it("should check the types of nested options", () => {
+    expect(
+      problems(
+        createConfig({
+          translations: { enabled: "yes", path: "./translations", separator: "/" },
+          routing: { slugs: { fi: { about: 1 } }, domains: [] },
+          detection: { cookie: true },
+        }),
+      ),
+    ).toEqual([
+      '"translations.enabled" must be true or false',
+      '"translations.separator" must be "." or ":"',
+      '"routing.slugs" must be a namespace or localized slugs by locale',
+      '"routing.domains" must be an object',
+      '"detection.cookie" must be a cookie name or false',
+    ])
+  })
+
+  it("should report a missing translations directory", () => {
+    const config = createConfig({ translations: { enabled: true, path: "./translations" } })
+
+    expect(problems(config, path.resolve("tests"))).toEqual([])
+    expect(problems(config, path.resolve("src"))).toEqual([
+      '"translations.path" points to "./translations", which does not exist',
+    ])
+  })
+
+  it("should return the configuration it checks at type level", () => {
+    const config = defineI18nConfig({
+      enabled: true,
+      default: "fi",
+      locales: [{ code: "en" }, { code: "fi" }],
+      routing: { slugs: { fi: { about: "tietoa" } } },
+    })
+
+    // The type-level checks are in validation.test-d.ts
+    expect(problems(config)).toEqual([])
+    expect(problems({ ...config, default: "de" })).toEqual([
+      '"default" must be one of the supported locale codes',
+    ])
+  })
+})
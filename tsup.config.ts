@@ -1,14 +1,15 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/middleware.ts', 'src/react.ts', 'src/svelte.ts', 'src/vue.ts'],
   format: ['esm'],
   dts: true,
-  splitting: false,
+  // The adapters share the state of the Locale API with the package entry
+  splitting: true,
   sourcemap: true,
   clean: true,
   treeshake: true,
-  external: ['astro'],
+  external: ['astro', 'vite', 'react', 'vue'],
 
   outDir: 'dist',
   target: 'es2022',